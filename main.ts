@@ -1,7 +1,7 @@
-import { App, FuzzySuggestModal, FuzzyMatch, Notice, Plugin, PluginSettingTab, SecretComponent, Setting, MarkdownPostProcessorContext, requestUrl, TFile } from 'obsidian';
+import { App, debounce, Editor, FuzzySuggestModal, FuzzyMatch, ItemView, Menu, Modal, moment, Notice, ObsidianProtocolData, Plugin, PluginSettingTab, SecretComponent, Setting, MarkdownPostProcessorContext, normalizePath, requestUrl, TFile, TFolder, WorkspaceLeaf } from 'obsidian';
 
 // --- HARVEST API TYPES ---
-interface HarvestClient {
+export interface HarvestClient {
     id: number;
     name: string;
     currency: string;
@@ -34,7 +34,7 @@ interface HarvestUserAssignment {
     hourly_rate: number | null;
 }
 
-interface HarvestTaskAssignment {
+export interface HarvestTaskAssignment {
     id: number;
     billable: boolean;
     is_active: boolean;
@@ -45,7 +45,7 @@ interface HarvestTaskAssignment {
     task: HarvestTask;
 }
 
-interface HarvestTimeEntry {
+export interface HarvestTimeEntry {
     id: number;
     spent_date: string;
     hours: number;
@@ -74,10 +74,19 @@ interface HarvestTimeEntry {
     user_assignment: HarvestUserAssignment;
     task_assignment: Omit<HarvestTaskAssignment, 'task'>;
     invoice: string | null;
-    external_reference: string | null;
+    external_reference: HarvestExternalReference | null;
 }
 
-interface HarvestProjectFull {
+interface HarvestExternalReference {
+    id: string;
+    group_id: string;
+    account_id?: string;
+    permalink: string;
+    service?: string;
+    service_icon_url?: string;
+}
+
+export interface HarvestProjectFull {
     id: number;
     name: string;
     code: string;
@@ -105,8 +114,8 @@ interface HarvestProjectFull {
     task_assignments?: HarvestTaskAssignment[];
 }
 
-interface HarvestTimeEntriesResponse {
-    time_entries: HarvestTimeEntry[];
+// Pagination fields shared by every Harvest list endpoint
+export interface HarvestPaginatedResponse {
     per_page: number;
     total_pages: number;
     total_entries: number;
@@ -121,791 +130,5090 @@ interface HarvestTimeEntriesResponse {
     };
 }
 
-interface HarvestProjectsResponse {
+interface HarvestTimeEntriesResponse extends HarvestPaginatedResponse {
+    time_entries: HarvestTimeEntry[];
+}
+
+interface HarvestUsersResponse extends HarvestPaginatedResponse {
+    users: HarvestCurrentUser[];
+}
+
+interface HarvestProjectsResponse extends HarvestPaginatedResponse {
     projects: HarvestProjectFull[];
-    per_page: number;
-    total_pages: number;
-    total_entries: number;
-    next_page: number | null;
-    previous_page: number | null;
-    page: number;
-    links: {
-        first: string;
-        next: string | null;
-        previous: string | null;
-        last: string;
-    };
 }
 
-interface HarvestTaskAssignmentsResponse {
+interface HarvestTaskAssignmentsResponse extends HarvestPaginatedResponse {
     task_assignments: HarvestTaskAssignment[];
-    per_page: number;
-    total_pages: number;
-    total_entries: number;
-    next_page: number | null;
-    previous_page: number | null;
-    page: number;
-    links: {
-        first: string;
-        next: string | null;
-        previous: string | null;
-        last: string;
-    };
 }
 
-interface HarvestCurrentUser {
+export interface HarvestProjectAssignment {
+    id: number;
+    is_active: boolean;
+    project: HarvestProject;
+    client: HarvestClient;
+}
+
+interface HarvestProjectAssignmentsResponse extends HarvestPaginatedResponse {
+    project_assignments: HarvestProjectAssignment[];
+}
+
+// A row of Harvest's project budget report, which only administrators and project managers can see
+export interface HarvestProjectBudgetReport {
+    project_id: number;
+    project_name: string;
+    client_id: number;
+    client_name: string;
+    budget_is_monthly: boolean;
+    budget_by: string;
+    is_active: boolean;
+    budget: number | null;
+    budget_spent: number;
+    budget_remaining: number | null;
+}
+
+interface HarvestProjectBudgetReportResponse extends HarvestPaginatedResponse {
+    results: HarvestProjectBudgetReport[];
+}
+
+export interface HarvestCurrentUser {
     id: number;
     first_name: string;
     last_name: string;
     email: string;
+    // 'administrator', 'manager' and/or 'member'
+    access_roles: string[];
 }
 
-// --- PLUGIN TYPES ---
-// Stores the last used project/task for a given folder path to use as a default when starting a new timer.
-interface FolderProjectCache {
-    [folderPath: string]: {
-        projectId: number;
-        taskId: number;
-    };
+export interface HarvestCompany {
+    name: string;
+    full_domain: string;
+    // True when the account tracks time with start and end times rather than durations
+    wants_timestamp_timers: boolean;
+    time_format: string;
+    week_start_day: string;
 }
 
-// --- HQL TYPES ---
+// Harvest ID, which signs users in with OAuth2 and lists the accounts they can use
+interface HarvestOAuthTokens {
+    access_token: string;
+    refresh_token: string;
+    token_type: string;
+    // Seconds
+    expires_in: number;
+}
 
-type ISODate = string;
+export interface HarvestIdAccount {
+    id: number;
+    name: string;
+    // 'harvest' or 'forecast'
+    product: string;
+}
 
-enum QueryType {
-    SUMMARY = 'SUMMARY',
-    LIST = 'LIST',
+interface HarvestIdAccountsResponse {
+    accounts: HarvestIdAccount[];
 }
 
-interface HarvestQuery {
-    type: QueryType;
-    from: ISODate;
-    to: ISODate;
+// --- HARVEST TRANSPORT ---
+export interface HarvestRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
 }
 
-// --- HQL PARSER ---
-function parseQuery(source: string): HarvestQuery {
-    const tokens = source.trim().split(/\s+/).map(t => t.toUpperCase());
-    if (tokens.length < 2) throw new Error("Query is too short.");
+export interface HarvestResponse {
+    status: number;
+    headers: Record<string, string>;
+    // May throw if the body isn't JSON
+    readonly json: unknown;
+}
 
-    const type = tokens[0] as QueryType;
-    if (type !== QueryType.LIST && type !== QueryType.SUMMARY) {
-        throw new Error(`Invalid query type: ${type as string}. Must be LIST or SUMMARY.`);
-    }
+// Sends requests to the Harvest API, throwing only when there's no response at all. Error statuses are returned
+// like any other. Swapped for an in-memory Harvest in tests.
+export interface HarvestTransport {
+    send(request: HarvestRequest): Promise<HarvestResponse>;
+}
+
+const requestUrlTransport: HarvestTransport = {
+    send: request => requestUrl({ ...request, throw: false }),
+};
+
+const USER_AGENT = 'Obsidian Harvest Integration';
 
-    const { from, to } = parseTimeRange(tokens.slice(1));
+// --- HARVEST ID SIGN-IN ---
+const HARVEST_ID_ROOT = 'https://id.getharvest.com';
+// Harvest ID redirects back to obsidian://harvest-auth, which must be the redirect URL of the OAuth2 application
+const SIGN_IN_PROTOCOL_ACTION = 'harvest-auth';
+// Access tokens are renewed this long before they expire, so requests never go out with one about to lapse
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const SIGN_IN_EXPIRED_MESSAGE = 'Your Harvest sign-in has expired. Sign in again in the plugin settings.';
 
-    return { type, from, to };
+// --- HARVEST API ERRORS ---
+// Why a Harvest request failed, so callers can tell the cases apart
+export enum HarvestErrorKind {
+    AUTH = 'auth',
+    NOT_FOUND = 'not-found',
+    LOCKED = 'locked',
+    RATE_LIMITED = 'rate-limited',
+    OFFLINE = 'offline',
+    INVALID = 'invalid',
+    SERVER = 'server',
 }
 
-function parseTimeRange(tokens: string[]): { from: ISODate, to: ISODate } {
-    const today = new Date();
-    const formatDate = (date: Date): ISODate => {
-        const year = date.getFullYear();
-        const month = (date.getMonth() + 1).toString().padStart(2, '0');
-        const day = date.getDate().toString().padStart(2, '0');
-        return `${year}-${month}-${day}`;
-    };
+export class HarvestApiError extends Error {
+    constructor(readonly kind: HarvestErrorKind, message: string, readonly status: number | null = null) {
+        super(message);
+        this.name = 'HarvestApiError';
+    }
+}
 
-    let from: Date;
-    let to: Date;
+// Retries for 429 and 5xx responses before giving up
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Used when a 429 response doesn't say how long to wait
+const DEFAULT_RETRY_AFTER_SECONDS = 15;
 
-    switch (tokens[0]) {
-        case 'TODAY':
-            from = today;
-            to = today;
-            break;
-        case 'WEEK': {
-            const dayOfWeek = today.getDay();
-            const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-            from = new Date(today.getFullYear(), today.getMonth(), today.getDate() + daysToMonday);
-            to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 6);
-            break;
-        }
-        case 'MONTH':
-            from = new Date(today.getFullYear(), today.getMonth(), 1);
-            to = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-            break;
-        case 'PAST': {
-            const count = parseInt(tokens[1]);
-            if (isNaN(count) || tokens[2] !== 'DAYS') throw new Error("Invalid PAST format. Use 'PAST <number> DAYS'.");
-            to = today;
-            from = new Date(new Date().setDate(today.getDate() - (count - 1)));
-            break;
-        }
-        case 'FROM': {
-            if (tokens.length < 4 || tokens[2] !== 'TO') throw new Error("Invalid FROM...TO format.");
-            from = new Date(tokens[1]);
-            to = new Date(tokens[3]);
-            if (isNaN(from.getTime()) || isNaN(to.getTime())) throw new Error("Invalid date format in FROM...TO. Use YYYY-MM-DD.");
-            break;
-        }
-        default:
-            throw new Error(`Unknown time range specifier: ${tokens[0]}`);
+// Harvest only shows other people's time to these roles, and quietly limits everyone else to their own
+const TEAM_REPORT_ROLES = ['administrator', 'manager'];
+const TEAM_REPORT_PERMISSION_MESSAGE = 'Reporting on other people\'s time needs a Harvest administrator or manager role.';
+
+function harvestApiError(response: HarvestResponse): HarvestApiError {
+    const status = response.status;
+    let detail = '';
+    try {
+        const json = response.json as { message?: string, error_description?: string } | null;
+        detail = json?.message || json?.error_description || '';
+    } catch {
+        // Not every error response has a JSON body
     }
 
-    return { from: formatDate(from), to: formatDate(to) };
+    // Harvest refuses edits to approved or closed entries with a 403 or 422 that only its message tells apart
+    if ((status === 403 || status === 422) && /locked|approved|closed/i.test(detail)) {
+        return new HarvestApiError(HarvestErrorKind.LOCKED, `This time entry is locked: ${detail}`, status);
+    }
+    if (status === 401) {
+        return new HarvestApiError(HarvestErrorKind.AUTH, 'Harvest rejected your credentials. Check your token and account ID in the settings.', status);
+    }
+    if (status === 403) {
+        return new HarvestApiError(HarvestErrorKind.AUTH, detail || 'You don\'t have permission to do that in Harvest.', status);
+    }
+    if (status === 404) {
+        return new HarvestApiError(HarvestErrorKind.NOT_FOUND, detail || 'Not found in Harvest.', status);
+    }
+    if (status === 429) {
+        return new HarvestApiError(HarvestErrorKind.RATE_LIMITED, 'Harvest\'s rate limit was reached. Try again in a minute.', status);
+    }
+    if (status >= 500) {
+        return new HarvestApiError(HarvestErrorKind.SERVER, detail || `Harvest is unavailable (${status}).`, status);
+    }
+    return new HarvestApiError(HarvestErrorKind.INVALID, detail || String(status), status);
 }
 
-// --- HQL SERIALIZERS (for freezing results) ---
-function serializeListToMarkdown(entries: HarvestTimeEntry[], query: HarvestQuery): string {
-    const lines: string[] = [];
-    lines.push(`> [!info] Harvest Time Entries (${query.from} to ${query.to})`);
-    lines.push('');
-    lines.push('| Project | Task | Date | Hours |');
-    lines.push('| --- | --- | --- | ---: |');
-    for (const entry of entries) {
-        lines.push(`| ${entry.project.name} | ${entry.task.name} | ${entry.spent_date} | ${entry.hours.toFixed(2)} |`);
-    }
-    return lines.join('\n');
+function headerValue(headers: Record<string, string>, name: string): string | null {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : null;
 }
 
-function serializeSummaryToMarkdown(entries: HarvestTimeEntry[], query: HarvestQuery): string {
-    let totalHours = 0;
-    const projectTotals: { [key: string]: number } = {};
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => window.setTimeout(resolve, ms));
+}
 
-    for (const entry of entries) {
-        totalHours += entry.hours;
-        const projectName = entry.project.name;
-        if (!projectTotals[projectName]) {
-            projectTotals[projectName] = 0;
-        }
-        projectTotals[projectName] += entry.hours;
-    }
+// --- PLUGIN TYPES ---
+// How a new time entry is linked back to the note it was started from
+type NoteLinkMode = 'none' | 'notes' | 'external-reference';
 
-    const sortedProjects = Object.keys(projectTotals).sort((a, b) => projectTotals[b] - projectTotals[a]);
+// A completed time entry to create, either as a duration or as start and end times depending on the account
+interface ManualTimeEntry {
+    projectId: number;
+    taskId: number;
+    spentDate: ISODate;
+    hours?: number;
+    startedTime?: string;
+    endedTime?: string;
+    notes: string;
+}
 
-    const lines: string[] = [];
-    lines.push(`> [!info] Harvest Time Summary (${query.from} to ${query.to})`);
-    lines.push(`> **Total hours: ${totalHours.toFixed(2)}**`);
-    for (const projectName of sortedProjects) {
-        const projectHours = projectTotals[projectName];
-        lines.push(`> - ${projectName}: ${projectHours.toFixed(2)} hours`);
-    }
-    return lines.join('\n');
+function manualEntryBody(entry: ManualTimeEntry): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+        project_id: entry.projectId,
+        task_id: entry.taskId,
+        spent_date: entry.spentDate,
+        notes: entry.notes,
+    };
+    if (entry.hours !== undefined) body.hours = entry.hours;
+    if (entry.startedTime !== undefined) body.started_time = entry.startedTime;
+    if (entry.endedTime !== undefined) body.ended_time = entry.endedTime;
+    return body;
 }
 
-// --- HQL RENDERER ---
-function renderReport(container: HTMLElement, entries: HarvestTimeEntry[], query: HarvestQuery, onFreeze?: () => Promise<void>) {
-    container.empty();
-    const wrapper = container.createDiv({ cls: 'harvest-report' });
+// Timer actions taken while offline, replayed in order once Harvest can be reached again.
+// `at` is when the action was actually taken, so replayed entries keep their real times.
+interface QueuedTimerStart {
+    type: 'start';
+    at: number;
+    projectId: number;
+    taskId: number;
+    spentDate: ISODate;
+    fields: Record<string, unknown>;
+}
 
-    if (entries.length === 0) {
-        wrapper.createEl('p', { text: 'No time entries found for the selected period.' });
-        return;
-    }
+interface QueuedTimerStop {
+    type: 'stop';
+    at: number;
+    // The Harvest timer to stop, or null to stop a timer that was itself started offline
+    timerId: number | null;
+}
 
-    if (query.type === QueryType.LIST) {
-        renderList(wrapper, entries);
-    } else if (query.type === QueryType.SUMMARY) {
-        renderSummary(wrapper, entries);
-    }
+interface QueuedTimeLog {
+    type: 'log';
+    at: number;
+    entry: ManualTimeEntry;
+}
 
-    // Add "Freeze Results" button if callback provided
-    if (onFreeze) {
-        const buttonContainer = wrapper.createDiv({ cls: 'harvest-freeze-container' });
-        const freezeButton = buttonContainer.createEl('button', {
-            text: '❆',
-            cls: 'harvest-freeze-button',
-            attr: { 'aria-label': 'Freeze results' }
-        });
-        freezeButton.addEventListener('click', () => { void onFreeze(); });
-    }
+type QueuedAction = QueuedTimerStart | QueuedTimerStop | QueuedTimeLog;
+
+// Called when a project and task have been picked, instead of starting a timer
+type TaskChoiceCallback = (project: HarvestProjectFull, taskAssignment: HarvestTaskAssignment) => void;
+
+// A timer marker on a line, e.g. `- [ ] Fix login bug #harvest/acme/dev` or `[harvest:: Acme Redesign/Development]`
+export interface TaskLineTimer {
+    project: string;
+    task: string | null;
+    // The line without its list marker, checkbox and timer marker
+    notes: string;
+    // Whether the line is a ticked task
+    checked: boolean;
 }
 
-function renderList(container: HTMLElement, entries: HarvestTimeEntry[]) {
-    const table = container.createEl('table', { cls: 'harvest-table' });
-    const thead = table.createTHead();
-    const headerRow = thead.insertRow();
-    headerRow.createEl('th', { text: 'Project' });
-    headerRow.createEl('th', { text: 'Task' });
-    headerRow.createEl('th', { text: 'Date' });
-    headerRow.createEl('th', { text: 'Hours' });
+// A Harvest account to work in. The token and account ID name secrets in SecretStorage, as the credentials did
+// before there were profiles.
+export interface HarvestProfile {
+    name: string;
+    personalAccessToken: string;
+    accountId: string;
+    // Opening a note in one of these folders (or below) switches to this profile
+    folders: string[];
+    // Set when the profile signed in through Harvest ID, whose access token then needs renewing
+    oauth?: HarvestProfileOAuth;
+}
 
-    const tbody = table.createTBody();
-    for (const entry of entries) {
-        const row = tbody.insertRow();
-        row.createEl('td', { text: entry.project.name });
-        row.createEl('td', { text: entry.task.name });
-        row.createEl('td', { text: entry.spent_date });
-        row.createEl('td', { text: entry.hours.toFixed(2), cls: 'harvest-hours' });
-    }
+interface HarvestProfileOAuth {
+    // The name of the refresh token's secret
+    refreshToken: string;
+    // When the access token expires, in ms since the epoch
+    expiresAt: number;
 }
 
-function renderSummary(container: HTMLElement, entries: HarvestTimeEntry[]) {
-    let totalHours = 0;
-    const projectTotals: { [key: string]: number } = {};
+// Time jotted down in a note, e.g. `- 09:00–10:30 Acme / Design: wireframes` or a table row, before its names are resolved
+export interface NoteTimeLog {
+    // Zero-based line in the note
+    line: number;
+    // Only set when a table has a date column; otherwise the note's date applies
+    date: ISODate | null;
+    // Minutes since midnight, when written as a time range
+    start: number | null;
+    end: number | null;
+    hours: number;
+    project: string;
+    task: string;
+    notes: string;
+}
 
-    for (const entry of entries) {
-        totalHours += entry.hours;
-        const projectName = entry.project.name;
-        if (!projectTotals[projectName]) {
-            projectTotals[projectName] = 0;
-        }
-        projectTotals[projectName] += entry.hours;
-    }
+// A note time log resolved against Harvest for review before it's created
+interface TimeLogImport {
+    log: NoteTimeLog;
+    title: string;
+    entry: ManualTimeEntry | null;
+    // Why the log can't be imported, e.g. an unknown project
+    problem: string | null;
+    // Whether the day already has an entry for the same project, task and hours
+    duplicate: boolean;
+}
 
-    container.createEl('h3', { text: 'Time summary' });
-    const summaryDiv = container.createDiv({ cls: 'harvest-summary' });
-    summaryDiv.createEl('p').createEl('strong', { text: `Total hours: ${totalHours.toFixed(2)}` });
+// Project and task references declared in a note's (or its folder notes') frontmatter, by name, code or ID
+interface NoteProjectMapping {
+    project: string | null;
+    task: string | null;
+}
 
-    // Bar Chart
-    const barChartContainer = summaryDiv.createDiv({ cls: 'harvest-barchart-container' });
-    const colors = ['#84b65a', '#c25956', '#59a7c2', '#c29b59', '#8e59c2', '#c2598e', '#5ac28a'];
-    let colorIndex = 0;
-    
-    const sortedProjects = Object.keys(projectTotals).sort((a, b) => projectTotals[b] - projectTotals[a]);
+// Stores the last used project/task for a given folder path to use as a default when starting a new timer.
+interface FolderProjectCache {
+    [folderPath: string]: {
+        projectId: number;
+        taskId: number;
+    };
+}
 
-    for (const projectName of sortedProjects) {
-        const projectHours = projectTotals[projectName];
-        const percentage = totalHours > 0 ? (projectHours / totalHours) * 100 : 0;
-        const color = colors[colorIndex % colors.length];
+// Formats HQL results can be exported in, and where the export goes
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+type ExportDestination = 'file' | 'clipboard';
 
-        const bar = barChartContainer.createDiv({ cls: 'harvest-barchart-bar' });
-        bar.style.setProperty('--bar-width', `${percentage}%`);
-        bar.style.setProperty('--bar-color', color);
-        bar.title = `${projectName}: ${projectHours.toFixed(2)} hours`;
-        colorIndex++;
-    }
+// A time entry field that can be exported as a column, named as in the export column list
+export interface ExportField {
+    name: string;
+    numeric: boolean;
+    value: (entry: HarvestTimeEntry) => string | number | boolean | null;
+}
 
-    // Legend
-    const legendContainer = summaryDiv.createDiv({ cls: 'harvest-barchart-legend' });
-    colorIndex = 0;
-    for (const projectName of sortedProjects) {
-        const projectHours = projectTotals[projectName];
-        const color = colors[colorIndex % colors.length];
+// How frozen reports are laid out: inside an info callout, or as a plain table or list
+export type FreezeStyle = 'callout' | 'table';
 
-        const legendItem = legendContainer.createDiv({ cls: 'harvest-legend-item' });
-        const colorSwatch = legendItem.createDiv({ cls: 'harvest-legend-swatch' });
-        colorSwatch.style.backgroundColor = color;
-        legendItem.createSpan({ text: `${projectName}: ${projectHours.toFixed(2)} hours` });
-        colorIndex++;
-    }
+export interface FreezeOptions {
+    style: FreezeStyle;
+    // Columns for frozen LIST reports in place of Project, Task, Date and Hours. SHOW columns are added after them.
+    columns: ExportField[] | null;
 }
 
+// A frozen report that kept its query, so it can be regenerated. Lines are the first and last of the whole snapshot.
+export interface FrozenSnapshot {
+    lineStart: number;
+    lineEnd: number;
+    source: string;
+    from: ISODate;
+    to: ISODate;
+}
 
-// --- HQL PROCESSOR ---
-const hqlProcessor = (plugin: HarvestPlugin) => async (
-    source: string,
-    el: HTMLElement,
-    ctx: MarkdownPostProcessorContext
-) => {
-    try {
-        const query = parseQuery(source);
-        if (!query) return;
+// A project/task row of a TIMESHEET grid, with its entries by day
+export interface TimesheetRow {
+    client: HarvestClient;
+    project: HarvestProject;
+    task: HarvestTask;
+    days: Map<ISODate, HarvestTimeEntry[]>;
+}
 
-        el.setText('Loading report...');
+type TimesheetRowKey = Omit<TimesheetRow, 'days'>;
 
-        const entries = await plugin.getTimeEntries(query);
+// A project's spend against its budget. Money budgets are in the client's currency, others in hours.
+export interface ProjectBudget {
+    project: HarvestProject;
+    client: HarvestClient;
+    isMonthly: boolean;
+    isMoney: boolean;
+    budget: number;
+    spent: number;
+    // The percentage of the budget at which Harvest warns the project's managers, or null if it doesn't
+    notifyPercentage: number | null;
+}
 
-        if (entries) {
-            // Create the freeze callback to replace code block with static markdown
-            const onFreeze = async () => {
-                const sectionInfo = ctx.getSectionInfo(el);
-                if (!sectionInfo) {
-                    new Notice('Could not locate code block in file.');
-                    return;
-                }
+interface TimesheetGridOptions {
+    // Rows picked with "Add row" that have no time logged against them yet
+    extraRows: TimesheetRowKey[];
+    // Why cells can't be edited, or null if they can
+    readOnlyReason: string | null;
+    onEdit: (row: TimesheetRow, date: ISODate, hours: number) => Promise<void>;
+    onAddRow: () => void;
+}
 
-                const file = plugin.app.vault.getAbstractFileByPath(ctx.sourcePath);
-                if (!file || !(file instanceof TFile)) {
-                    new Notice('Could not find the file to update.');
-                    return;
-                }
+// Called as pages of a list endpoint arrive, e.g. to show progress for long report ranges
+type PageProgressCallback = (loadedPages: number, totalPages: number) => void;
 
-                // Generate the markdown based on query type
-                const markdown = query.type === QueryType.LIST
-                    ? serializeListToMarkdown(entries, query)
-                    : serializeSummaryToMarkdown(entries, query);
+const TIMESHEET_VIEW_TYPE = 'harvest-timesheet';
 
-                // Read the file and replace the code block
-                const content = await plugin.app.vault.read(file);
-                const lines = content.split('\n');
+const DEFAULT_STATUS_BAR_FORMAT = '{project} - {task} ({elapsed})';
 
-                // Replace the lines from lineStart to lineEnd (inclusive) with the markdown
-                const newLines = [
-                    ...lines.slice(0, sectionInfo.lineStart),
-                    markdown,
-                    ...lines.slice(sectionInfo.lineEnd + 1)
-                ];
+const FRONTMATTER_PROJECT_KEY = 'harvest-project';
+const FRONTMATTER_TASK_KEY = 'harvest-task';
 
-                await plugin.app.vault.modify(file, newLines.join('\n'));
-                new Notice('Results have been frozen.');
-            };
+// --- HQL TYPES ---
 
-            renderReport(el, entries, query, onFreeze);
-        } else {
-            el.setText('Failed to fetch report.');
-        }
-    } catch (e) {
-        el.setText(`Error processing Harvest query: ${e instanceof Error ? e.message : String(e)}`);
-    }
-};
+type ISODate = string;
 
+export enum QueryType {
+    SUMMARY = 'SUMMARY',
+    LIST = 'LIST',
+    TIMESHEET = 'TIMESHEET',
+    BUDGET = 'BUDGET',
+}
 
-// Settings interface
-interface HarvestPluginSettings {
-    personalAccessToken: string;
-    accountId: string;
-    pollingInterval: number;
-    folderProjectCache: FolderProjectCache;
-    credentialsMigrated: boolean;
+export enum FilterField {
+    PROJECT = 'PROJECT',
+    CLIENT = 'CLIENT',
+    TASK = 'TASK',
+    BILLABLE = 'BILLABLE',
+    NOTES = 'NOTES',
+    NOTE = 'NOTE',
 }
 
-// Default settings
-const DEFAULT_SETTINGS: HarvestPluginSettings = {
-    personalAccessToken: '',
-    accountId: '',
-    pollingInterval: 5, // 5 minutes
-    folderProjectCache: {},
-    credentialsMigrated: false,
+export enum FilterOperator {
+    EQUALS = '=',
+    NOT_EQUALS = '!=',
+    CONTAINS = 'CONTAINS',
 }
 
-// Helper function to format decimal hours as h:mm
-function formatHoursMinutes(decimalHours: number): string {
-    const hours = Math.floor(decimalHours);
-    const minutes = Math.floor((decimalHours - hours) * 60);
-    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+interface QueryFilter {
+    field: FilterField;
+    operator: FilterOperator;
+    value: string | boolean;
 }
 
-// Main Plugin Class
-export default class HarvestPlugin extends Plugin {
-    settings!: HarvestPluginSettings;
-    statusBarItemEl!: HTMLElement;
+export enum GroupField {
+    PROJECT = 'PROJECT',
+    CLIENT = 'CLIENT',
+    TASK = 'TASK',
+    DAY = 'DAY',
+    WEEK = 'WEEK',
+    USER = 'USER',
+}
+
+// Whose time a report covers: the current user's (the default), everyone's they can see, or one person's
+export enum UserScope {
+    ME = 'ME',
+    ALL = 'ALL',
+    NAMED = 'NAMED',
+}
+
+export interface QueryUser {
+    scope: UserScope;
+    // A name or Harvest user ID, for NAMED
+    name: string | null;
+}
+
+// Extra columns requested with SHOW, on top of each report's default columns
+export enum ShowColumn {
+    CLIENT = 'CLIENT',
+    NOTES = 'NOTES',
+    BILLABLE = 'BILLABLE',
+    AMOUNT = 'AMOUNT',
+    COST = 'COST',
+}
+
+export interface HarvestQuery {
+    type: QueryType;
+    from: ISODate;
+    to: ISODate;
+    weekStart: number;
+    filters: QueryFilter[];
+    groupBy: GroupField[];
+    show: ShowColumn[];
+    user: QueryUser;
+    // The profile to report on, by name, or null for the active one
+    account: string | null;
+}
+
+// Everything outside the query text that relative time ranges depend on
+export interface QueryContext {
+    today: Date;
+    weekStart: number;
+    // The note containing the query and its date, from its 'date' property or file name
+    sourcePath: string;
+    noteDate: Date | null;
+}
+
+// Aggregated hours and money for a set of entries. Billable amounts are kept per currency since
+// clients can be billed in different currencies; cost is always in the account's currency.
+interface EntryTotals {
+    hours: number;
+    billableHours: number;
+    amounts: { [currency: string]: number };
+    cost: number;
+}
+
+// A node in a (possibly nested) summary breakdown
+interface SummaryGroup extends EntryTotals {
+    label: string;
+    sortKey: string;
+    children: SummaryGroup[];
+}
+
+interface ListColumn {
+    header: string;
+    numeric: boolean;
+    value: (entry: HarvestTimeEntry) => string;
+    total?: (totals: EntryTotals) => string;
+}
+
+interface SummaryColumn {
+    header: string;
+    value: (totals: EntryTotals) => string;
+}
+
+enum TokenKind {
+    WORD = 'WORD',
+    STRING = 'STRING',
+    OPERATOR = 'OPERATOR',
+    COMMA = 'COMMA',
+}
+
+interface Token {
+    kind: TokenKind;
+    value: string;
+    position: number;
+}
+
+// --- HQL TOKENIZER ---
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // Quoted strings allow names containing spaces, e.g. "Acme Redesign"
+        if (char === '"' || char === "'") {
+            const start = i;
+            let value = '';
+            i++;
+            while (i < source.length && source[i] !== char) {
+                if (source[i] === '\\' && i + 1 < source.length) i++;
+                value += source[i];
+                i++;
+            }
+            if (i >= source.length) throw new Error(`Unterminated string starting at position ${start + 1}.`);
+            i++;
+            tokens.push({ kind: TokenKind.STRING, value, position: start });
+            continue;
+        }
+
+        if (char === '!' && source[i + 1] === '=') {
+            tokens.push({ kind: TokenKind.OPERATOR, value: '!=', position: i });
+            i += 2;
+            continue;
+        }
+
+        if (char === '=') {
+            tokens.push({ kind: TokenKind.OPERATOR, value: '=', position: i });
+            i++;
+            continue;
+        }
+
+        if (char === ',') {
+            tokens.push({ kind: TokenKind.COMMA, value: ',', position: i });
+            i++;
+            continue;
+        }
+
+        const start = i;
+        while (i < source.length && !/[\s"=!,]/.test(source[i])) i++;
+        if (i === start) throw new Error(`Unexpected character '${char}' at position ${i + 1}.`);
+        tokens.push({ kind: TokenKind.WORD, value: source.slice(start, i), position: start });
+    }
+
+    return tokens;
+}
+
+class TokenStream {
+    private tokens: Token[];
+    private index = 0;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    atEnd(): boolean {
+        return this.index >= this.tokens.length;
+    }
+
+    peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    next(expected: string): Token {
+        const token = this.tokens[this.index];
+        if (!token) throw new Error(`Unexpected end of query, expected ${expected}.`);
+        this.index++;
+        return token;
+    }
+
+    isKeyword(keyword: string): boolean {
+        const token = this.peek();
+        return !!token && token.kind === TokenKind.WORD && token.value.toUpperCase() === keyword;
+    }
+
+    expectKeyword(keyword: string) {
+        const token = this.next(keyword);
+        if (token.kind !== TokenKind.WORD || token.value.toUpperCase() !== keyword) {
+            throw new Error(`Expected ${keyword} but found '${token.value}' at position ${token.position + 1}.`);
+        }
+    }
+}
+
+// --- HQL PARSER ---
+// Keywords that end the time range and start an optional clause
+const CLAUSE_KEYWORDS = ['ACCOUNT', 'USER', 'WHERE', 'GROUP', 'SHOW'];
+
+export function parseQuery(source: string, context: QueryContext): HarvestQuery {
+    const stream = new TokenStream(tokenize(source));
+    if (stream.atEnd()) throw new Error("Query is too short.");
+
+    const type = stream.next('a query type').value.toUpperCase() as QueryType;
+    if (!Object.values(QueryType).includes(type)) {
+        throw new Error(`Invalid query type: ${type as string}. Must be LIST, SUMMARY, TIMESHEET or BUDGET.`);
+    }
+
+    const rangeTokens: string[] = [];
+    while (!stream.atEnd() && !CLAUSE_KEYWORDS.some(keyword => stream.isKeyword(keyword))) {
+        rangeTokens.push(stream.next('a time range').value.toUpperCase());
+    }
+    // Budgets cover each project's whole budget period (or this month for monthly budgets), so they have no range
+    // and are dated today
+    if (type === QueryType.BUDGET && rangeTokens.length > 0) {
+        throw new Error("BUDGET queries don't take a time range.");
+    }
+    if (type !== QueryType.BUDGET && rangeTokens.length === 0) throw new Error("Query is too short.");
+
+    const { from, to } = type === QueryType.BUDGET
+        ? { from: formatDate(context.today), to: formatDate(context.today) }
+        : parseTimeRange(rangeTokens, context);
+    if (type === QueryType.TIMESHEET && daysBetween(from, to).length > MAX_TIMESHEET_DAYS) {
+        throw new Error(`TIMESHEET queries can cover at most ${MAX_TIMESHEET_DAYS} days.`);
+    }
+
+    const account = stream.isKeyword('ACCOUNT') ? parseAccountClause(stream) : null;
+    // Timesheet grids are edited, and budgets drawn from, through the active profile
+    if (account !== null && (type === QueryType.TIMESHEET || type === QueryType.BUDGET)) {
+        throw new Error("ACCOUNT is only supported for LIST and SUMMARY queries.");
+    }
+
+    const user = stream.isKeyword('USER') ? parseUserClause(stream) : { scope: UserScope.ME, name: null };
+    // Timesheet grids edit the user's own time, and budgets aren't anyone's
+    if (user.scope !== UserScope.ME && (type === QueryType.TIMESHEET || type === QueryType.BUDGET)) {
+        throw new Error("USER is only supported for LIST and SUMMARY queries.");
+    }
+
+    const filters = stream.isKeyword('WHERE') ? parseWhereClause(stream, context) : [];
+    if (type === QueryType.BUDGET && filters.some(filter => filter.field !== FilterField.PROJECT && filter.field !== FilterField.CLIENT)) {
+        throw new Error("BUDGET queries can only be filtered by PROJECT or CLIENT.");
+    }
+
+    let groupBy = [GroupField.PROJECT];
+    if (stream.isKeyword('GROUP')) {
+        if (type !== QueryType.SUMMARY) throw new Error("GROUP BY is only supported for SUMMARY queries.");
+        groupBy = parseGroupByClause(stream);
+    }
+
+    const show = stream.isKeyword('SHOW') ? parseShowClause(stream) : [];
+    if ((type === QueryType.TIMESHEET || type === QueryType.BUDGET) && show.length > 0) {
+        throw new Error(`SHOW is not supported for ${type} queries.`);
+    }
+    if (type === QueryType.SUMMARY && (show.includes(ShowColumn.CLIENT) || show.includes(ShowColumn.NOTES))) {
+        throw new Error("CLIENT and NOTES can only be shown in LIST queries. Use GROUP BY client for summaries.");
+    }
+
+    const leftover = stream.peek();
+    if (leftover) throw new Error(`Unexpected '${leftover.value}' at position ${leftover.position + 1}.`);
+
+    return { type, from, to, weekStart: context.weekStart, filters, groupBy, show, user, account };
+}
+
+function parseAccountClause(stream: TokenStream): string {
+    stream.expectKeyword('ACCOUNT');
+    const token = stream.next('an account name');
+    if (token.kind === TokenKind.OPERATOR || token.kind === TokenKind.COMMA) {
+        throw new Error(`Expected an account name but found '${token.value}' at position ${token.position + 1}.`);
+    }
+    return token.value;
+}
+
+function parseUserClause(stream: TokenStream): QueryUser {
+    stream.expectKeyword('USER');
+    const token = stream.next('a user');
+    if (token.kind === TokenKind.OPERATOR || token.kind === TokenKind.COMMA) {
+        throw new Error(`Expected me, all or a name but found '${token.value}' at position ${token.position + 1}.`);
+    }
+
+    if (token.kind === TokenKind.WORD) {
+        const keyword = token.value.toLowerCase();
+        if (keyword === 'me') return { scope: UserScope.ME, name: null };
+        if (keyword === 'all') return { scope: UserScope.ALL, name: null };
+    }
+    return { scope: UserScope.NAMED, name: token.value };
+}
+
+function parseWhereClause(stream: TokenStream, context: QueryContext): QueryFilter[] {
+    stream.expectKeyword('WHERE');
+    const filters = [parseCondition(stream, context)];
+    while (stream.isKeyword('AND')) {
+        stream.next('AND');
+        filters.push(parseCondition(stream, context));
+    }
+    return filters;
+}
+
+function parseCondition(stream: TokenStream, context: QueryContext): QueryFilter {
+    const fieldToken = stream.next('a filter field');
+    const field = fieldToken.value.toUpperCase() as FilterField;
+    if (fieldToken.kind !== TokenKind.WORD || !Object.values(FilterField).includes(field)) {
+        throw new Error(`Unknown filter field: ${fieldToken.value}. Must be PROJECT, CLIENT, TASK, BILLABLE, NOTES or NOTE.`);
+    }
+
+    const operatorToken = stream.next('an operator');
+    const operator = operatorToken.value.toUpperCase() as FilterOperator;
+    if (operatorToken.kind === TokenKind.STRING || !Object.values(FilterOperator).includes(operator)) {
+        throw new Error(`Invalid operator: ${operatorToken.value}. Must be =, != or CONTAINS.`);
+    }
+
+    const valueToken = stream.next('a value');
+    if (valueToken.kind === TokenKind.OPERATOR) {
+        throw new Error(`Expected a value but found '${valueToken.value}' at position ${valueToken.position + 1}.`);
+    }
+
+    if (field === FilterField.BILLABLE) {
+        const value = valueToken.value.toLowerCase();
+        if (operator === FilterOperator.CONTAINS) throw new Error("BILLABLE only supports = and !=.");
+        if (value !== 'true' && value !== 'false') throw new Error("BILLABLE must be compared to true or false.");
+        return { field, operator, value: value === 'true' };
+    }
+
+    // NOTE matches entries linked to a note; `this` is the note containing the query
+    if (field === FilterField.NOTE) {
+        if (operator === FilterOperator.CONTAINS) throw new Error("NOTE only supports = and !=.");
+        const isThis = valueToken.kind === TokenKind.WORD && valueToken.value.toLowerCase() === 'this';
+        return { field, operator, value: isThis ? context.sourcePath : valueToken.value };
+    }
+
+    return { field, operator, value: valueToken.value };
+}
+
+function parseGroupByClause(stream: TokenStream): GroupField[] {
+    stream.expectKeyword('GROUP');
+    stream.expectKeyword('BY');
+
+    const fields: GroupField[] = [];
+    do {
+        if (fields.length > 0) stream.next(',');
+        const token = stream.next('a group field');
+        const field = token.value.toUpperCase() as GroupField;
+        if (token.kind !== TokenKind.WORD || !Object.values(GroupField).includes(field)) {
+            throw new Error(`Unknown group field: ${token.value}. Must be PROJECT, CLIENT, TASK, USER, DAY or WEEK.`);
+        }
+        if (fields.includes(field)) throw new Error(`Cannot group by ${field} twice.`);
+        fields.push(field);
+    } while (stream.peek()?.kind === TokenKind.COMMA);
+
+    if (fields.length > 2) throw new Error("GROUP BY supports at most two levels.");
+    return fields;
+}
+
+function parseShowClause(stream: TokenStream): ShowColumn[] {
+    stream.expectKeyword('SHOW');
+
+    const columns: ShowColumn[] = [];
+    do {
+        if (columns.length > 0) stream.next(',');
+        const token = stream.next('a column');
+        const column = token.value.toUpperCase() as ShowColumn;
+        if (token.kind !== TokenKind.WORD || !Object.values(ShowColumn).includes(column)) {
+            throw new Error(`Unknown column: ${token.value}. Must be CLIENT, NOTES, BILLABLE, AMOUNT or COST.`);
+        }
+        if (!columns.includes(column)) columns.push(column);
+    } while (stream.peek()?.kind === TokenKind.COMMA);
+
+    return columns;
+}
+
+// --- DATE HELPERS ---
+export function formatDate(date: Date): ISODate {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+// Parses a YYYY-MM-DD date as local midnight (new Date('YYYY-MM-DD') would be UTC)
+function parseISODate(value: ISODate): Date {
+    const [year, month, day] = value.split('-').map(part => parseInt(part));
+    return new Date(year, month - 1, day);
+}
+
+function isISODate(value: string): boolean {
+    // Round-tripping rejects impossible dates such as 2025-02-30, which Date would silently roll over
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && formatDate(parseISODate(value)) === value;
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Moves by whole months, clamping to the end of shorter months (e.g. 31 March - 1 month = 28/29 February)
+function addMonths(date: Date, months: number): Date {
+    const lastDayOfTargetMonth = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+    return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDayOfTargetMonth));
+}
+
+// weekStart follows Date.getDay(): 0 = Sunday, 1 = Monday, ...
+function startOfWeek(date: Date, weekStart: number = 1): Date {
+    const daysSinceWeekStart = (date.getDay() - weekStart + 7) % 7;
+    return addDays(date, -daysSinceWeekStart);
+}
+
+// Returns the calendar period of the given unit containing `date`
+function periodContaining(unit: string, date: Date, weekStart: number): { from: Date, to: Date } {
+    switch (unit) {
+        case 'DAY':
+            return { from: date, to: date };
+        case 'WEEK': {
+            const from = startOfWeek(date, weekStart);
+            return { from, to: addDays(from, 6) };
+        }
+        case 'MONTH':
+            return {
+                from: new Date(date.getFullYear(), date.getMonth(), 1),
+                to: new Date(date.getFullYear(), date.getMonth() + 1, 0),
+            };
+        case 'QUARTER': {
+            const firstMonth = Math.floor(date.getMonth() / 3) * 3;
+            return {
+                from: new Date(date.getFullYear(), firstMonth, 1),
+                to: new Date(date.getFullYear(), firstMonth + 3, 0),
+            };
+        }
+        case 'YEAR':
+            return { from: new Date(date.getFullYear(), 0, 1), to: new Date(date.getFullYear(), 11, 31) };
+        default:
+            throw new Error(`Unknown period: ${unit}. Must be DAY, WEEK, MONTH, QUARTER or YEAR.`);
+    }
+}
+
+// Resolves the date after OF, either a literal date or {{date}} for the note's own date
+function resolveAnchorDate(token: string | undefined, context: QueryContext): Date {
+    if (token === '{{DATE}}') {
+        if (!context.noteDate) {
+            throw new Error("This note has no date. Add a 'date' property or use a date in the file name.");
+        }
+        return context.noteDate;
+    }
+    if (token && isISODate(token)) return parseISODate(token);
+    throw new Error("Invalid OF format. Use '<period> OF <YYYY-MM-DD>' or '<period> OF {{date}}'.");
+}
+
+export function parseTimeRange(tokens: string[], context: QueryContext): { from: ISODate, to: ISODate } {
+    const today = context.today;
+
+    let from: Date;
+    let to: Date;
+
+    switch (tokens[0]) {
+        case 'TODAY':
+            from = today;
+            to = today;
+            break;
+        case 'YESTERDAY':
+            from = addDays(today, -1);
+            to = from;
+            break;
+        case 'DAY':
+        case 'WEEK':
+        case 'MONTH':
+        case 'QUARTER':
+        case 'YEAR': {
+            const anchor = tokens[1] === 'OF' ? resolveAnchorDate(tokens[2], context) : today;
+            ({ from, to } = periodContaining(tokens[0], anchor, context.weekStart));
+            break;
+        }
+        case 'LAST': {
+            // Step back one period from today, then take the whole period containing that date
+            const unit = tokens[1];
+            let anchor: Date;
+            if (unit === 'WEEK') anchor = addDays(today, -7);
+            else if (unit === 'MONTH') anchor = addMonths(today, -1);
+            else if (unit === 'QUARTER') anchor = addMonths(today, -3);
+            else if (unit === 'YEAR') anchor = new Date(today.getFullYear() - 1, 0, 1);
+            else throw new Error("Invalid LAST format. Use 'LAST WEEK', 'LAST MONTH', 'LAST QUARTER' or 'LAST YEAR'.");
+            ({ from, to } = periodContaining(unit, anchor, context.weekStart));
+            break;
+        }
+        case 'PAST': {
+            const count = parseInt(tokens[1]);
+            const unit = tokens[2];
+            if (isNaN(count) || count < 1) throw new Error("Invalid PAST format. Use 'PAST <number> DAYS', 'WEEKS' or 'MONTHS'.");
+            to = today;
+            if (unit === 'DAYS' || unit === 'DAY') from = addDays(today, -(count - 1));
+            else if (unit === 'WEEKS' || unit === 'WEEK') from = addDays(today, -(count * 7 - 1));
+            else if (unit === 'MONTHS' || unit === 'MONTH') from = addDays(addMonths(today, -count), 1);
+            else throw new Error("Invalid PAST format. Use 'PAST <number> DAYS', 'WEEKS' or 'MONTHS'.");
+            break;
+        }
+        case 'FROM': {
+            if (tokens.length < 4 || tokens[2] !== 'TO') throw new Error("Invalid FROM...TO format.");
+            if (!isISODate(tokens[1]) || !isISODate(tokens[3])) throw new Error("Invalid date format in FROM...TO. Use YYYY-MM-DD.");
+            from = parseISODate(tokens[1]);
+            to = parseISODate(tokens[3]);
+            break;
+        }
+        default:
+            throw new Error(`Unknown time range specifier: ${tokens[0]}`);
+    }
+
+    return { from: formatDate(from), to: formatDate(to) };
+}
+
+// --- HQL FILTERS ---
+function matchesFilter(entry: HarvestTimeEntry, filter: QueryFilter): boolean {
+    let matched: boolean;
+
+    if (filter.field === FilterField.BILLABLE) {
+        matched = entry.billable === filter.value;
+    } else if (filter.field === FilterField.NOTE) {
+        matched = entryLinksToNote(entry, String(filter.value));
+    } else {
+        matched = matchesNames(filterFieldNames(entry, filter.field), filterFieldId(entry, filter.field), filter);
+    }
+
+    return filter.operator === FilterOperator.NOT_EQUALS ? !matched : matched;
+}
+
+function matchesUser(entry: HarvestTimeEntry, user: QueryUser): boolean {
+    if (user.scope !== UserScope.NAMED) return true;
+    const name = (user.name ?? '').toLowerCase();
+    return entry.user.name.toLowerCase() === name || String(entry.user.id) === name;
+}
+
+// Whether any of the names (or, for = and !=, the Harvest ID) matches, ignoring the operator's negation
+function matchesNames(names: string[], id: number | null, filter: QueryFilter): boolean {
+    const needle = String(filter.value).toLowerCase();
+    const lowerNames = names.map(name => name.toLowerCase());
+    if (filter.operator === FilterOperator.CONTAINS) {
+        return lowerNames.some(name => name.includes(needle));
+    }
+    // Projects, clients and tasks can also be matched on their Harvest ID
+    return lowerNames.some(name => name === needle) || (id !== null && String(id) === needle);
+}
+
+// Without a code, only the name can match, so `project = ""` doesn't match every project lacking one
+function projectNames(project: HarvestProject): string[] {
+    return [project.name, project.code].filter((name): name is string => !!name);
+}
+
+function filterFieldNames(entry: HarvestTimeEntry, field: FilterField): string[] {
+    switch (field) {
+        case FilterField.PROJECT:
+            return projectNames(entry.project);
+        case FilterField.CLIENT:
+            return [entry.client.name];
+        case FilterField.TASK:
+            return [entry.task.name];
+        case FilterField.NOTES:
+            return [entry.notes ?? ''];
+        default:
+            return [];
+    }
+}
+
+function filterFieldId(entry: HarvestTimeEntry, field: FilterField): number | null {
+    switch (field) {
+        case FilterField.PROJECT:
+            return entry.project.id;
+        case FilterField.CLIENT:
+            return entry.client.id;
+        case FilterField.TASK:
+            return entry.task.id;
+        default:
+            return null;
+    }
+}
+
+// --- HQL GROUPING ---
+function groupEntries(entries: HarvestTimeEntry[], fields: GroupField[], weekStart: number): SummaryGroup[] {
+    if (fields.length === 0) return [];
+    const [field, ...rest] = fields;
+
+    const buckets = new Map<string, { label: string, sortKey: string, entries: HarvestTimeEntry[] }>();
+    for (const entry of entries) {
+        const { label, sortKey } = groupKey(entry, field, weekStart);
+        let bucket = buckets.get(label);
+        if (!bucket) {
+            bucket = { label, sortKey, entries: [] };
+            buckets.set(label, bucket);
+        }
+        bucket.entries.push(entry);
+    }
+
+    const groups = Array.from(buckets.values()).map(bucket => ({
+        ...totalEntries(bucket.entries),
+        label: bucket.label,
+        sortKey: bucket.sortKey,
+        children: groupEntries(bucket.entries, rest, weekStart),
+    }));
+
+    // Time-based groups read best chronologically, everything else largest first
+    if (field === GroupField.DAY || field === GroupField.WEEK) {
+        return groups.sort((a, b) => a.sortKey.localeCompare(b.sortKey));
+    }
+    return groups.sort((a, b) => b.hours - a.hours);
+}
+
+function groupKey(entry: HarvestTimeEntry, field: GroupField, weekStart: number): { label: string, sortKey: string } {
+    switch (field) {
+        case GroupField.CLIENT:
+            return { label: entry.client.name, sortKey: entry.client.name };
+        case GroupField.TASK:
+            return { label: entry.task.name, sortKey: entry.task.name };
+        case GroupField.USER:
+            return { label: entry.user.name, sortKey: entry.user.name };
+        case GroupField.DAY:
+            return { label: entry.spent_date, sortKey: entry.spent_date };
+        case GroupField.WEEK: {
+            const weekOf = formatDate(startOfWeek(parseISODate(entry.spent_date), weekStart));
+            return { label: `Week of ${weekOf}`, sortKey: weekOf };
+        }
+        case GroupField.PROJECT:
+        default:
+            return { label: entry.project.name, sortKey: entry.project.name };
+    }
+}
+
+// --- HQL TOTALS AND COLUMNS ---
+function entryAmount(entry: HarvestTimeEntry): number {
+    return entry.billable ? entry.hours * (entry.billable_rate ?? 0) : 0;
+}
+
+function entryCost(entry: HarvestTimeEntry): number {
+    return entry.hours * (entry.cost_rate ?? 0);
+}
+
+function totalEntries(entries: HarvestTimeEntry[]): EntryTotals {
+    const totals: EntryTotals = { hours: 0, billableHours: 0, amounts: {}, cost: 0 };
+    for (const entry of entries) {
+        totals.hours += entry.hours;
+        totals.cost += entryCost(entry);
+        if (entry.billable) {
+            const currency = entry.client?.currency ?? '';
+            totals.billableHours += entry.hours;
+            totals.amounts[currency] = (totals.amounts[currency] ?? 0) + entryAmount(entry);
+        }
+    }
+    return totals;
+}
+
+function formatMoney(amount: number, currency: string): string {
+    return currency ? `${currency} ${amount.toFixed(2)}` : amount.toFixed(2);
+}
+
+// Amounts in different currencies can't be added together, so each currency is listed separately
+function formatAmounts(amounts: { [currency: string]: number }): string {
+    const currencies = Object.keys(amounts).sort();
+    if (currencies.length === 0) return formatMoney(0, '');
+    return currencies.map(currency => formatMoney(amounts[currency], currency)).join(', ');
+}
+
+// Totals rows are only worth showing once money or billable columns are involved
+function showsTotals(query: HarvestQuery): boolean {
+    return query.show.some(column => column === ShowColumn.BILLABLE || column === ShowColumn.AMOUNT || column === ShowColumn.COST);
+}
+
+const DEFAULT_LIST_COLUMNS: ListColumn[] = [
+    { header: 'Project', numeric: false, value: entry => entry.project.name },
+    { header: 'Task', numeric: false, value: entry => entry.task.name },
+    { header: 'Date', numeric: false, value: entry => entry.spent_date },
+    { header: 'Hours', numeric: true, value: entry => entry.hours.toFixed(2), total: totals => totals.hours.toFixed(2) },
+];
+
+// Added in front of the other columns when a report covers other people's time
+const USER_LIST_COLUMN: ListColumn = { header: 'User', numeric: false, value: entry => entry.user.name };
+
+// The columns of a LIST report: `baseColumns` followed by any SHOW columns. A SHOW column replaces a base column
+// with the same header, keeping its place but taking SHOW's formatting and total.
+function listColumns(query: HarvestQuery, baseColumns: ListColumn[] = DEFAULT_LIST_COLUMNS): ListColumn[] {
+    const columns = [...baseColumns];
+    if (query.user.scope !== UserScope.ME && !columns.some(column => column.header === USER_LIST_COLUMN.header)) {
+        columns.unshift(USER_LIST_COLUMN);
+    }
+    for (const column of query.show.map(showListColumn)) {
+        const index = columns.findIndex(existing => existing.header === column.header);
+        if (index === -1) {
+            columns.push(column);
+        } else {
+            columns[index] = column;
+        }
+    }
+    return columns;
+}
+
+function showListColumn(column: ShowColumn): ListColumn {
+    switch (column) {
+        case ShowColumn.CLIENT:
+            return { header: 'Client', numeric: false, value: entry => entry.client.name };
+        case ShowColumn.NOTES:
+            return { header: 'Notes', numeric: false, value: entry => entry.notes ?? '' };
+        case ShowColumn.BILLABLE:
+            return {
+                header: 'Billable',
+                numeric: false,
+                value: entry => entry.billable ? 'Yes' : 'No',
+                total: totals => `${totals.billableHours.toFixed(2)} h`,
+            };
+        case ShowColumn.AMOUNT:
+            return {
+                header: 'Amount',
+                numeric: true,
+                value: entry => entry.billable ? formatMoney(entryAmount(entry), entry.client.currency) : '',
+                total: totals => formatAmounts(totals.amounts),
+            };
+        case ShowColumn.COST:
+            return {
+                header: 'Cost',
+                numeric: true,
+                value: entry => entryCost(entry).toFixed(2),
+                total: totals => totals.cost.toFixed(2),
+            };
+    }
+}
+
+function summaryColumns(query: HarvestQuery): SummaryColumn[] {
+    const columns: SummaryColumn[] = [{ header: 'Hours', value: totals => totals.hours.toFixed(2) }];
+
+    for (const column of query.show) {
+        switch (column) {
+            case ShowColumn.BILLABLE:
+                columns.push({ header: 'Billable hours', value: totals => totals.billableHours.toFixed(2) });
+                columns.push({ header: 'Non-billable hours', value: totals => (totals.hours - totals.billableHours).toFixed(2) });
+                break;
+            case ShowColumn.AMOUNT:
+                columns.push({ header: 'Amount', value: totals => formatAmounts(totals.amounts) });
+                break;
+            case ShowColumn.COST:
+                columns.push({ header: 'Cost', value: totals => totals.cost.toFixed(2) });
+                break;
+        }
+    }
+
+    return columns;
+}
+
+// --- NOTE LINKS ---
+function noteUri(vaultName: string, path: string): string {
+    return `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(path)}`;
+}
+
+// An entry is linked to a note either through its external reference or an obsidian:// link in its notes.
+// Links are matched on the file path alone so they survive the vault being renamed or synced elsewhere.
+function entryLinksToNote(entry: HarvestTimeEntry, path: string): boolean {
+    if (entry.external_reference?.id === path) return true;
+
+    const links = (entry.notes ?? '').match(/obsidian:\/\/open\?[^\s)]+/g) ?? [];
+    return links.some(link => {
+        const file = new URLSearchParams(link.slice(link.indexOf('?') + 1)).get('file');
+        return file === path || (file !== null && `${file}.md` === path);
+    });
+}
+
+// --- PROJECT MAPPING ---
+// Names can also be referred to in lowercase with dashes for spaces, since tags can't contain spaces
+function matchesProjectReference(project: HarvestProject, reference: string): boolean {
+    const needle = reference.toLowerCase();
+    return String(project.id) === reference || project.name.toLowerCase() === needle || slugify(project.name) === needle
+        || (!!project.code && project.code.toLowerCase() === needle);
+}
+
+function matchesTaskReference(task: HarvestTask, reference: string): boolean {
+    const needle = reference.toLowerCase();
+    return String(task.id) === reference || task.name.toLowerCase() === needle || slugify(task.name) === needle;
+}
+
+// Short forms such as `dev` for Development, used when nothing matches a reference exactly
+function startsProjectReference(project: HarvestProject, reference: string): boolean {
+    const needle = reference.toLowerCase();
+    return slugify(project.name).startsWith(needle) || (!!project.code && project.code.toLowerCase().startsWith(needle));
+}
+
+function startsTaskReference(task: HarvestTask, reference: string): boolean {
+    return slugify(task.name).startsWith(reference.toLowerCase());
+}
+
+// Exact matches if there are any, otherwise prefix matches when `starts` is given
+function findReferenced<T>(items: T[], reference: string, matches: (item: T, reference: string) => boolean, starts: ((item: T, reference: string) => boolean) | null): T[] {
+    const exact = items.filter(item => matches(item, reference));
+    return exact.length > 0 || !starts ? exact : items.filter(item => starts(item, reference));
+}
+
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+const TASK_LINE_PREFIX = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[(.)\]\s+)?/;
+const HARVEST_TAG = /(?:^|\s)#harvest\/([^\s/#]+)(?:\/([^\s#]+))?/i;
+const HARVEST_FIELD = /\[harvest::\s*([^\]]+)\]/i;
+
+// Finds a timer marker on a line: a #harvest/project/task tag or a [harvest:: project/task] inline field.
+// The task is optional in both, and the field takes the task after the last slash.
+export function parseTaskLine(line: string): TaskLineTimer | null {
+    let project: string;
+    let task: string | null;
+    let marker: string;
+
+    const tag = HARVEST_TAG.exec(line);
+    const field = HARVEST_FIELD.exec(line);
+    if (tag) {
+        marker = tag[0];
+        project = tag[1];
+        task = tag[2] ?? null;
+    } else if (field) {
+        marker = field[0];
+        const value = field[1].trim();
+        const slash = value.lastIndexOf('/');
+        project = slash === -1 ? value : value.slice(0, slash).trim();
+        task = slash === -1 ? null : value.slice(slash + 1).trim() || null;
+    } else {
+        return null;
+    }
+
+    const prefix = TASK_LINE_PREFIX.exec(line);
+    const checked = !!prefix?.[1] && prefix[1] !== ' ';
+    const notes = line.slice(prefix?.[0].length ?? 0).replace(marker, ' ').replace(/\s+/g, ' ').trim();
+    return { project, task, notes, checked };
+}
+
+// Frontmatter values may be numbers (IDs) or strings; anything else is treated as unset
+function frontmatterReference(value: unknown): string | null {
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    return null;
+}
+
+// --- HQL SERIALIZERS (for freezing results) ---
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTableRow(cells: string[]): string {
+    return `| ${cells.map(escapeTableCell).join(' | ')} |`;
+}
+
+const DEFAULT_FREEZE_OPTIONS: FreezeOptions = { style: 'callout', columns: null };
+
+export function serializeListToMarkdown(entries: HarvestTimeEntry[], query: HarvestQuery, options: FreezeOptions = DEFAULT_FREEZE_OPTIONS): string {
+    const columns = options.columns ? listColumns(query, options.columns.map(frozenFieldColumn)) : listColumns(query);
+    const lines: string[] = [];
+    if (options.style === 'callout') {
+        lines.push(`> [!info] Harvest Time Entries (${query.from} to ${query.to})`);
+        lines.push('');
+    }
+    lines.push(markdownTableRow(columns.map(column => column.header)));
+    lines.push(`| ${columns.map(column => column.numeric ? '---:' : '---').join(' | ')} |`);
+    for (const entry of entries) {
+        lines.push(markdownTableRow(columns.map(column => column.value(entry))));
+    }
+    if (showsTotals(query)) {
+        const totals = totalEntries(entries);
+        lines.push(markdownTableRow(columns.map((column, index) => {
+            if (index === 0) return '**Total**';
+            return column.total ? `**${column.total(totals)}**` : '';
+        })));
+    }
+    return lines.join('\n');
+}
+
+export function serializeSummaryToMarkdown(entries: HarvestTimeEntry[], query: HarvestQuery, options: FreezeOptions = DEFAULT_FREEZE_OPTIONS): string {
+    const totals = totalEntries(entries);
+    const totalHours = totals.hours;
+    const groups = groupEntries(entries, query.groupBy, query.weekStart);
+
+    const lines: string[] = [];
+    const quote = options.style === 'callout' ? '> ' : '';
+    if (options.style === 'callout') {
+        lines.push(`> [!info] Harvest Time Summary (${query.from} to ${query.to})`);
+    }
+    lines.push(`${quote}**Total hours: ${totalHours.toFixed(2)}**`);
+
+    // Money columns don't fit the nested list, so they are frozen as a table instead
+    if (query.show.length > 0) {
+        const columns = summaryColumns(query);
+        const nested = query.groupBy.length > 1;
+        const labelHeaders = query.groupBy.map(groupFieldLabel);
+        lines.push('');
+        lines.push(markdownTableRow([...labelHeaders, ...columns.map(column => column.header)]));
+        lines.push(`| ${[...labelHeaders.map(() => '---'), ...columns.map(() => '---:')].join(' | ')} |`);
+        for (const group of groups) {
+            const label = nested ? [`**${group.label}**`, ''] : [group.label];
+            lines.push(markdownTableRow([...label, ...columns.map(column => column.value(group))]));
+            for (const child of group.children) {
+                lines.push(markdownTableRow(['', child.label, ...columns.map(column => column.value(child))]));
+            }
+        }
+        const totalLabel = nested ? ['**Total**', ''] : ['**Total**'];
+        lines.push(markdownTableRow([...totalLabel, ...columns.map(column => `**${column.value(totals)}**`)]));
+        return lines.join('\n');
+    }
+
+    if (!quote) lines.push('');
+    for (const group of groups) {
+        lines.push(`${quote}- ${group.label}: ${group.hours.toFixed(2)} hours`);
+        for (const child of group.children) {
+            lines.push(`${quote}  - ${child.label}: ${child.hours.toFixed(2)} hours`);
+        }
+    }
+    return lines.join('\n');
+}
+
+// A frozen LIST column for an export field. Project, task, date and hours keep the report's own formatting.
+function frozenFieldColumn(field: ExportField): ListColumn {
+    const header = field.name.charAt(0).toUpperCase() + field.name.slice(1).replace(/_/g, ' ');
+    const reportColumn = DEFAULT_LIST_COLUMNS.find(column => column.header === header);
+    if (reportColumn) return reportColumn;
+
+    return {
+        header,
+        numeric: field.numeric,
+        value: entry => {
+            const value = field.value(entry);
+            if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+            if (typeof value === 'number' && !Number.isInteger(value)) return value.toFixed(2);
+            return value === null ? '' : String(value);
+        },
+    };
+}
+
+// Frozen snapshots keep their query and period in hidden comments around the frozen markdown:
+//
+//   %% harvest-snapshot 2025-01-01 2025-01-31
+//   LIST LAST MONTH
+//   %%
+//   ...frozen report...
+//
+//   %% /harvest-snapshot %%
+const SNAPSHOT_START = '%% harvest-snapshot';
+const SNAPSHOT_QUERY_END = '%%';
+const SNAPSHOT_END = '%% /harvest-snapshot %%';
+
+export function wrapSnapshot(markdown: string, source: string, query: HarvestQuery): string {
+    // The blank line ends a frozen table, which would otherwise take the closing comment as another row
+    return [`${SNAPSHOT_START} ${query.from} ${query.to}`, source.trim(), SNAPSHOT_QUERY_END, markdown, '', SNAPSHOT_END].join('\n');
+}
+
+export function findSnapshots(content: string): FrozenSnapshot[] {
+    const lines = content.split('\n');
+    const snapshots: FrozenSnapshot[] = [];
+    for (let index = 0; index < lines.length; index++) {
+        const match = /^%% harvest-snapshot (\d{4}-\d{2}-\d{2}) (\d{4}-\d{2}-\d{2})$/.exec(lines[index].trim());
+        if (!match) continue;
+
+        const queryEnd = lines.findIndex((line, lineIndex) => lineIndex > index && line.trim() === SNAPSHOT_QUERY_END);
+        const end = lines.findIndex((line, lineIndex) => lineIndex > index && line.trim() === SNAPSHOT_END);
+        if (queryEnd === -1 || end === -1 || queryEnd > end) continue;
+
+        snapshots.push({ lineStart: index, lineEnd: end, source: lines.slice(index + 1, queryEnd).join('\n'), from: match[1], to: match[2] });
+        index = end;
+    }
+    return snapshots;
+}
+
+// --- HQL EXPORT ---
+export const EXPORT_FIELDS: ExportField[] = [
+    { name: 'id', numeric: true, value: entry => entry.id },
+    { name: 'date', numeric: false, value: entry => entry.spent_date },
+    { name: 'hours', numeric: true, value: entry => entry.hours },
+    { name: 'rounded_hours', numeric: true, value: entry => entry.rounded_hours },
+    { name: 'started_time', numeric: false, value: entry => entry.started_time },
+    { name: 'ended_time', numeric: false, value: entry => entry.ended_time },
+    { name: 'notes', numeric: false, value: entry => entry.notes ?? '' },
+    { name: 'client', numeric: false, value: entry => entry.client.name },
+    { name: 'client_id', numeric: true, value: entry => entry.client.id },
+    { name: 'project', numeric: false, value: entry => entry.project.name },
+    { name: 'project_code', numeric: false, value: entry => entry.project.code ?? '' },
+    { name: 'project_id', numeric: true, value: entry => entry.project.id },
+    { name: 'task', numeric: false, value: entry => entry.task.name },
+    { name: 'task_id', numeric: true, value: entry => entry.task.id },
+    { name: 'user', numeric: false, value: entry => entry.user.name },
+    { name: 'user_id', numeric: true, value: entry => entry.user.id },
+    { name: 'billable', numeric: false, value: entry => entry.billable },
+    { name: 'billable_rate', numeric: true, value: entry => entry.billable_rate },
+    { name: 'amount', numeric: true, value: entry => entryAmount(entry) },
+    { name: 'currency', numeric: false, value: entry => entry.client.currency },
+    { name: 'cost_rate', numeric: true, value: entry => entry.cost_rate },
+    { name: 'cost', numeric: true, value: entry => entryCost(entry) },
+    { name: 'is_running', numeric: false, value: entry => entry.is_running },
+    { name: 'is_locked', numeric: false, value: entry => entry.is_locked },
+    { name: 'locked_reason', numeric: false, value: entry => entry.locked_reason },
+    { name: 'is_billed', numeric: false, value: entry => entry.is_billed },
+    { name: 'approval_status', numeric: false, value: entry => entry.approval_status },
+    { name: 'external_reference', numeric: false, value: entry => entry.external_reference?.permalink ?? null },
+    { name: 'created_at', numeric: false, value: entry => entry.created_at },
+    { name: 'updated_at', numeric: false, value: entry => entry.updated_at },
+];
+
+const DEFAULT_EXPORT_COLUMNS = 'date, client, project, task, hours, billable, notes';
+const DEFAULT_FREEZE_COLUMNS = 'project, task, date, hours';
+
+const EXPORT_EXTENSIONS: { [format in ExportFormat]: string } = {
+    csv: 'csv',
+    json: 'json',
+    markdown: 'md',
+};
+
+// Resolves a comma-separated list of export field names, in the order given
+export function parseExportColumns(text: string): ExportField[] {
+    const names = text.split(',').map(name => name.trim().toLowerCase()).filter(name => name !== '');
+    if (names.length === 0) throw new Error('Choose at least one column to export.');
+    return names.map(name => {
+        const field = EXPORT_FIELDS.find(candidate => candidate.name === name);
+        if (!field) throw new Error(`Unknown column: ${name}. Available columns: ${EXPORT_FIELDS.map(candidate => candidate.name).join(', ')}.`);
+        return field;
+    });
+}
+
+export function exportEntries(entries: HarvestTimeEntry[], fields: ExportField[], format: ExportFormat): string {
+    switch (format) {
+        case 'csv': {
+            const rows = [fields.map(field => field.name), ...entries.map(entry => fields.map(field => field.value(entry)))];
+            // CSV lines end in CRLF (RFC 4180), which spreadsheet apps expect
+            return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+        }
+        case 'json': {
+            const rows = entries.map(entry => Object.fromEntries(fields.map(field => [field.name, field.value(entry)])));
+            return JSON.stringify(rows, null, 2);
+        }
+        case 'markdown': {
+            const lines = [
+                markdownTableRow(fields.map(field => field.name)),
+                `| ${fields.map(field => field.numeric ? '---:' : '---').join(' | ')} |`,
+                ...entries.map(entry => markdownTableRow(fields.map(field => exportCellText(field.value(entry))))),
+            ];
+            return lines.join('\n');
+        }
+    }
+}
+
+function exportCellText(value: string | number | boolean | null): string {
+    if (value === null) return '';
+    if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+    return String(value);
+}
+
+function csvCell(value: string | number | boolean | null): string {
+    const text = exportCellText(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+
+// --- HQL TIMESHEET GRID ---
+// A grid has a column per day, so long ranges would be unreadable
+const MAX_TIMESHEET_DAYS = 31;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Groups entries into project/task rows ordered by project then task. Extra rows without entries are kept empty.
+export function buildTimesheetRows(entries: HarvestTimeEntry[], extraRows: TimesheetRowKey[] = []): TimesheetRow[] {
+    const rows = new Map<string, TimesheetRow>();
+    const rowFor = (key: TimesheetRowKey) => {
+        const id = `${key.project.id}:${key.task.id}`;
+        let row = rows.get(id);
+        if (!row) {
+            row = { client: key.client, project: key.project, task: key.task, days: new Map() };
+            rows.set(id, row);
+        }
+        return row;
+    };
+
+    for (const entry of entries) {
+        const days = rowFor(entry).days;
+        days.set(entry.spent_date, [...days.get(entry.spent_date) ?? [], entry]);
+    }
+    extraRows.forEach(rowFor);
+
+    return [...rows.values()].sort((a, b) =>
+        a.project.name.localeCompare(b.project.name) || a.task.name.localeCompare(b.task.name));
+}
+
+function timesheetCellHours(row: TimesheetRow, date: ISODate): number {
+    return (row.days.get(date) ?? []).reduce((sum, entry) => sum + entry.hours, 0);
+}
+
+function timesheetDayLabel(date: ISODate): string {
+    const day = parseISODate(date);
+    return `${WEEKDAY_NAMES[day.getDay()]} ${day.getDate()}`;
+}
+
+export function serializeTimesheetToMarkdown(entries: HarvestTimeEntry[], query: HarvestQuery, options: FreezeOptions = DEFAULT_FREEZE_OPTIONS): string {
+    const days = daysBetween(query.from, query.to);
+    const rows = buildTimesheetRows(entries);
+    const hoursCell = (hours: number) => hours > 0 ? hours.toFixed(2) : '';
+
+    const lines: string[] = [];
+    if (options.style === 'callout') {
+        lines.push(`> [!info] Harvest Timesheet (${query.from} to ${query.to})`);
+        lines.push('');
+    }
+    lines.push(markdownTableRow(['Project', 'Task', ...days.map(timesheetDayLabel), 'Total']));
+    lines.push(`| --- | --- | ${days.map(() => '---:').join(' | ')} | ---: |`);
+    for (const row of rows) {
+        const hours = days.map(date => timesheetCellHours(row, date));
+        const total = hours.reduce((sum, value) => sum + value, 0);
+        lines.push(markdownTableRow([row.project.name, row.task.name, ...hours.map(hoursCell), total.toFixed(2)]));
+    }
+    const dayTotals = days.map(date => rows.reduce((sum, row) => sum + timesheetCellHours(row, date), 0));
+    const total = dayTotals.reduce((sum, value) => sum + value, 0);
+    lines.push(markdownTableRow(['**Total**', '', ...dayTotals.map(hours => `**${hours.toFixed(2)}**`), `**${total.toFixed(2)}**`]));
+    return lines.join('\n');
+}
+
+// Renders a project/task × day grid. With grid options, cells can be typed into and rows added; without, it's read-only.
+function renderTimesheet(container: HTMLElement, entries: HarvestTimeEntry[], query: HarvestQuery, grid?: TimesheetGridOptions) {
+    const days = daysBetween(query.from, query.to);
+    const rows = buildTimesheetRows(entries, grid?.extraRows);
+    const today = formatDate(new Date());
+    const editable = grid !== undefined && grid.readOnlyReason === null;
+
+    const table = container.createEl('table', { cls: 'harvest-table harvest-timesheet-grid' });
+    const headerRow = table.createTHead().insertRow();
+    headerRow.createEl('th', { text: 'Project' });
+    for (const date of days) {
+        const th = headerRow.createEl('th', { text: timesheetDayLabel(date), cls: 'harvest-hours', attr: { title: date } });
+        if (date === today) th.addClass('is-today');
+    }
+    headerRow.createEl('th', { text: 'Total', cls: 'harvest-hours' });
+
+    const tbody = table.createTBody();
+    if (rows.length === 0) {
+        const cell = tbody.insertRow().createEl('td', { text: 'No time entries found for the selected period.' });
+        cell.colSpan = days.length + 2;
+    }
+    for (const row of rows) {
+        const tr = tbody.insertRow();
+        const label = tr.createEl('td');
+        label.createDiv({ text: row.project.name });
+        label.createEl('small', { text: `${row.task.name} · ${row.client.name}` });
+
+        for (const date of days) {
+            const cellEntries = row.days.get(date) ?? [];
+            const hours = timesheetCellHours(row, date);
+            const td = tr.createEl('td', { cls: 'harvest-hours' });
+            const input = td.createEl('input', { type: 'text', cls: 'harvest-timesheet-cell' });
+            input.value = hours > 0 ? formatHoursMinutes(hours) : '';
+
+            // Running timers and locked entries can only be changed in Harvest
+            const blocked = cellEntries.find(entry => entry.is_running || entry.is_locked);
+            input.disabled = !editable || blocked !== undefined;
+            if (blocked) {
+                input.title = blocked.is_running ? 'A timer is running on this day.' : blocked.locked_reason ?? 'This entry is locked.';
+            } else if (cellEntries.length > 1) {
+                input.title = `${cellEntries.length} entries`;
+            }
+
+            if (!grid || input.disabled) continue;
+            input.addEventListener('change', () => {
+                const value = input.value.trim() === '' ? 0 : parseDuration(input.value);
+                if (value === null) {
+                    new Notice('Invalid duration. Use h:mm, decimal hours or minutes, e.g. 1:30, 1.5h or 90m.');
+                    input.value = hours > 0 ? formatHoursMinutes(hours) : '';
+                    return;
+                }
+                input.disabled = true;
+                void grid.onEdit(row, date, value);
+            });
+        }
+
+        const rowTotal = days.reduce((sum, date) => sum + timesheetCellHours(row, date), 0);
+        tr.createEl('td', { text: formatHoursMinutes(rowTotal), cls: 'harvest-hours' });
+    }
+
+    const footerRow = table.createTFoot().insertRow();
+    footerRow.addClass('harvest-total-row');
+    footerRow.createEl('td', { text: 'Total' });
+    let total = 0;
+    for (const date of days) {
+        const dayTotal = rows.reduce((sum, row) => sum + timesheetCellHours(row, date), 0);
+        total += dayTotal;
+        footerRow.createEl('td', { text: formatHoursMinutes(dayTotal), cls: 'harvest-hours' });
+    }
+    footerRow.createEl('td', { text: formatHoursMinutes(total), cls: 'harvest-hours' });
+
+    if (grid?.readOnlyReason) {
+        container.createEl('p', { text: grid.readOnlyReason, cls: 'harvest-timesheet-grid-note' });
+    } else if (grid) {
+        container.createEl('button', { text: 'Add row', cls: 'harvest-timesheet-add-row' })
+            .addEventListener('click', () => grid.onAddRow());
+    }
+}
+
+
+// --- PROJECT BUDGETS ---
+// Harvest budgets by hours unless it's by fees
+const MONEY_BUDGETS = ['project_cost', 'task_fees'];
+
+function budgetUsedPercent(budget: ProjectBudget): number {
+    return budget.budget > 0 ? budget.spent / budget.budget * 100 : 0;
+}
+
+function isOverBudgetThreshold(budget: ProjectBudget): boolean {
+    return budget.notifyPercentage !== null && budgetUsedPercent(budget) >= budget.notifyPercentage;
+}
+
+function formatBudgetValue(budget: ProjectBudget, value: number): string {
+    return budget.isMoney ? formatMoney(value, budget.client.currency) : `${value.toFixed(2)} h`;
+}
+
+function matchesBudgetFilter(assignment: HarvestProjectAssignment, filter: QueryFilter): boolean {
+    const matched = filter.field === FilterField.PROJECT
+        ? matchesNames(projectNames(assignment.project), assignment.project.id, filter)
+        : matchesNames([assignment.client.name], assignment.client.id, filter);
+    return filter.operator === FilterOperator.NOT_EQUALS ? !matched : matched;
+}
+
+export function serializeBudgetToMarkdown(budgets: ProjectBudget[], query: HarvestQuery, options: FreezeOptions = DEFAULT_FREEZE_OPTIONS): string {
+    const lines: string[] = [];
+    if (options.style === 'callout') {
+        lines.push(`> [!info] Harvest Project Budgets (${query.to})`);
+        lines.push('');
+    }
+    lines.push(markdownTableRow(['Project', 'Client', 'Budget', 'Spent', 'Remaining', 'Used']));
+    lines.push('| --- | --- | ---: | ---: | ---: | ---: |');
+    for (const budget of budgets) {
+        const used = `${Math.round(budgetUsedPercent(budget))}%${isOverBudgetThreshold(budget) ? ' ⚠' : ''}`;
+        lines.push(markdownTableRow([
+            budget.project.name + (budget.isMonthly ? ' (monthly)' : ''),
+            budget.client.name,
+            formatBudgetValue(budget, budget.budget),
+            formatBudgetValue(budget, budget.spent),
+            formatBudgetValue(budget, budget.budget - budget.spent),
+            used,
+        ]));
+    }
+    return lines.join('\n');
+}
+
+function renderBudgets(container: HTMLElement, budgets: ProjectBudget[], query: HarvestQuery, onFreeze?: () => Promise<void>) {
+    container.empty();
+    const wrapper = container.createDiv({ cls: 'harvest-report' });
+
+    if (budgets.length === 0) {
+        wrapper.createEl('p', { text: 'None of your projects have a budget you can see.' });
+        return;
+    }
+
+    const table = wrapper.createEl('table', { cls: 'harvest-table harvest-budget-table' });
+    const headerRow = table.createTHead().insertRow();
+    for (const header of ['Project', 'Budget', 'Spent', 'Remaining', 'Progress']) {
+        headerRow.createEl('th', { text: header, cls: header === 'Project' || header === 'Progress' ? undefined : 'harvest-hours' });
+    }
+
+    const tbody = table.createTBody();
+    for (const budget of budgets) {
+        const percent = budgetUsedPercent(budget);
+        const row = tbody.insertRow();
+        if (isOverBudgetThreshold(budget)) row.addClass('is-over-threshold');
+        if (percent > 100) row.addClass('is-over-budget');
+
+        const label = row.createEl('td');
+        label.createDiv({ text: budget.project.name });
+        label.createEl('small', { text: budget.isMonthly ? `${budget.client.name} · monthly` : budget.client.name });
+        row.createEl('td', { text: formatBudgetValue(budget, budget.budget), cls: 'harvest-hours' });
+        row.createEl('td', { text: formatBudgetValue(budget, budget.spent), cls: 'harvest-hours' });
+        row.createEl('td', { text: formatBudgetValue(budget, budget.budget - budget.spent), cls: 'harvest-hours' });
+
+        const progress = row.createEl('td', { cls: 'harvest-budget-progress' });
+        const bar = progress.createDiv({ cls: 'harvest-budget-bar' });
+        bar.createDiv({ cls: 'harvest-budget-bar-fill' }).style.setProperty('--bar-width', `${Math.min(percent, 100)}%`);
+        if (budget.notifyPercentage !== null) {
+            bar.createDiv({ cls: 'harvest-budget-bar-threshold', attr: { title: `Harvest warns at ${budget.notifyPercentage}%` } })
+                .style.setProperty('--bar-width', `${Math.min(budget.notifyPercentage, 100)}%`);
+        }
+        progress.createSpan({ text: `${Math.round(percent)}%`, cls: 'harvest-budget-percent' });
+    }
+
+    renderReportButtons(wrapper, onFreeze);
+}
+
+
+// --- HQL RENDERER ---
+function renderReport(
+    container: HTMLElement,
+    entries: HarvestTimeEntry[],
+    query: HarvestQuery,
+    onFreeze?: () => Promise<void>,
+    onExport?: (evt: MouseEvent) => void,
+    grid?: TimesheetGridOptions
+) {
+    container.empty();
+    const wrapper = container.createDiv({ cls: 'harvest-report' });
+
+    // A timesheet grid is shown even when empty, so time can be typed into it
+    if (query.type === QueryType.TIMESHEET) {
+        renderTimesheet(wrapper, entries, query, grid);
+    } else if (entries.length === 0) {
+        wrapper.createEl('p', { text: 'No time entries found for the selected period.' });
+        return;
+    } else if (query.type === QueryType.LIST) {
+        renderList(wrapper, entries, query);
+    } else if (query.type === QueryType.SUMMARY) {
+        renderSummary(wrapper, entries, query);
+    }
+
+    renderReportButtons(wrapper, onFreeze, onExport);
+}
+
+function renderReportButtons(wrapper: HTMLElement, onFreeze?: () => Promise<void>, onExport?: (evt: MouseEvent) => void) {
+    if (!onFreeze && !onExport) return;
+    const buttonContainer = wrapper.createDiv({ cls: 'harvest-freeze-container' });
+
+    if (onExport) {
+        const exportButton = buttonContainer.createEl('button', {
+            text: '⇩',
+            cls: 'harvest-export-button',
+            attr: { 'aria-label': 'Export results' }
+        });
+        exportButton.addEventListener('click', (evt) => onExport(evt));
+    }
+
+    // Add "Freeze Results" button if callback provided
+    if (onFreeze) {
+        const freezeButton = buttonContainer.createEl('button', {
+            text: '❆',
+            cls: 'harvest-freeze-button',
+            attr: { 'aria-label': 'Freeze results' }
+        });
+        freezeButton.addEventListener('click', () => { void onFreeze(); });
+    }
+}
+
+function renderList(container: HTMLElement, entries: HarvestTimeEntry[], query: HarvestQuery) {
+    const columns = listColumns(query);
+    const table = container.createEl('table', { cls: 'harvest-table' });
+    const thead = table.createTHead();
+    const headerRow = thead.insertRow();
+    for (const column of columns) {
+        headerRow.createEl('th', { text: column.header });
+    }
+
+    const tbody = table.createTBody();
+    for (const entry of entries) {
+        const row = tbody.insertRow();
+        for (const column of columns) {
+            row.createEl('td', { text: column.value(entry), cls: column.numeric ? 'harvest-hours' : undefined });
+        }
+    }
+
+    if (showsTotals(query)) {
+        const totals = totalEntries(entries);
+        const footerRow = table.createTFoot().insertRow();
+        footerRow.addClass('harvest-total-row');
+        columns.forEach((column, index) => {
+            const text = index === 0 ? 'Total' : column.total?.(totals) ?? '';
+            footerRow.createEl('td', { text, cls: column.numeric ? 'harvest-hours' : undefined });
+        });
+    }
+}
+
+function renderSummary(container: HTMLElement, entries: HarvestTimeEntry[], query: HarvestQuery) {
+    const totals = totalEntries(entries);
+    const totalHours = totals.hours;
+    const groups = groupEntries(entries, query.groupBy, query.weekStart);
+
+    container.createEl('h3', { text: 'Time summary' });
+    const summaryDiv = container.createDiv({ cls: 'harvest-summary' });
+    summaryDiv.createEl('p').createEl('strong', { text: `Total hours: ${totalHours.toFixed(2)}` });
+
+    // Bar Chart
+    const barChartContainer = summaryDiv.createDiv({ cls: 'harvest-barchart-container' });
+    const colors = ['#84b65a', '#c25956', '#59a7c2', '#c29b59', '#8e59c2', '#c2598e', '#5ac28a'];
+    let colorIndex = 0;
+
+    for (const group of groups) {
+        const percentage = totalHours > 0 ? (group.hours / totalHours) * 100 : 0;
+        const color = colors[colorIndex % colors.length];
+
+        const bar = barChartContainer.createDiv({ cls: 'harvest-barchart-bar' });
+        bar.style.setProperty('--bar-width', `${percentage}%`);
+        bar.style.setProperty('--bar-color', color);
+        bar.title = `${group.label}: ${group.hours.toFixed(2)} hours`;
+        colorIndex++;
+    }
+
+    // Legend
+    const legendContainer = summaryDiv.createDiv({ cls: 'harvest-barchart-legend' });
+    colorIndex = 0;
+    for (const group of groups) {
+        const color = colors[colorIndex % colors.length];
+
+        const legendItem = legendContainer.createDiv({ cls: 'harvest-legend-item' });
+        const colorSwatch = legendItem.createDiv({ cls: 'harvest-legend-swatch' });
+        colorSwatch.style.backgroundColor = color;
+        legendItem.createSpan({ text: `${group.label}: ${group.hours.toFixed(2)} hours` });
+        colorIndex++;
+    }
+
+    // Second level breakdowns and SHOW columns get a table below the chart
+    if (query.groupBy.length > 1 || query.show.length > 0) {
+        renderSummaryTable(summaryDiv, groups, totals, query);
+    }
+}
+
+function renderSummaryTable(container: HTMLElement, groups: SummaryGroup[], totals: EntryTotals, query: HarvestQuery) {
+    const columns = summaryColumns(query);
+    const nested = query.groupBy.length > 1;
+    const labelSpan = String(query.groupBy.length);
+
+    const table = container.createEl('table', { cls: 'harvest-table harvest-summary-table' });
+    const headerRow = table.createTHead().insertRow();
+    for (const field of query.groupBy) {
+        headerRow.createEl('th', { text: groupFieldLabel(field) });
+    }
+    for (const column of columns) {
+        headerRow.createEl('th', { text: column.header });
+    }
+
+    const tbody = table.createTBody();
+    for (const group of groups) {
+        const groupRow = tbody.insertRow();
+        if (nested) groupRow.addClass('harvest-group-row');
+        groupRow.createEl('td', { text: group.label, attr: { colspan: labelSpan } });
+        for (const column of columns) {
+            groupRow.createEl('td', { text: column.value(group), cls: 'harvest-hours' });
+        }
+
+        for (const child of group.children) {
+            const childRow = tbody.insertRow();
+            childRow.createEl('td');
+            childRow.createEl('td', { text: child.label });
+            for (const column of columns) {
+                childRow.createEl('td', { text: column.value(child), cls: 'harvest-hours' });
+            }
+        }
+    }
+
+    const footerRow = table.createTFoot().insertRow();
+    footerRow.addClass('harvest-total-row');
+    footerRow.createEl('td', { text: 'Total', attr: { colspan: labelSpan } });
+    for (const column of columns) {
+        footerRow.createEl('td', { text: column.value(totals), cls: 'harvest-hours' });
+    }
+}
+
+function groupFieldLabel(field: GroupField): string {
+    return field.charAt(0) + field.slice(1).toLowerCase();
+}
+
+
+// --- DAILY NOTE LOG ---
+const DAILY_LOG_START = '%% harvest-log %%';
+const DAILY_LOG_END = '%% /harvest-log %%';
+// The Daily notes core plugin's default
+const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+
+export function dailyNotePath(date: Date, folder: string, format: string): string {
+    const name = moment(date).format(format || DEFAULT_DAILY_NOTE_FORMAT);
+    return normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+}
+
+// A table of the day's entries in the order they were started, between the markers that delimit the managed section
+export function serializeDailyLog(entries: HarvestTimeEntry[]): string {
+    const lines = [DAILY_LOG_START];
+    if (entries.length === 0) {
+        lines.push('No time tracked.');
+    } else {
+        const sorted = [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+        lines.push(markdownTableRow(['Start', 'End', 'Project', 'Task', 'Hours', 'Notes']));
+        lines.push('| --- | --- | --- | --- | ---: | --- |');
+        for (const entry of sorted) {
+            const hours = formatHoursMinutes(entry.hours) + (entry.is_running ? ' (running)' : '');
+            lines.push(markdownTableRow([entry.started_time ?? '', entry.ended_time ?? '', entry.project.name, entry.task.name, hours, entry.notes ?? '']));
+        }
+        const total = entries.reduce((sum, entry) => sum + entry.hours, 0);
+        lines.push(markdownTableRow(['**Total**', '', '', '', `**${formatHoursMinutes(total)}**`, '']));
+    }
+    lines.push(DAILY_LOG_END);
+    return lines.join('\n');
+}
+
+// Replaces the managed section, or appends it if the note doesn't have one yet, leaving the rest of the note as it is
+export function replaceDailyLog(content: string, log: string): string {
+    const start = content.indexOf(DAILY_LOG_START);
+    const end = start === -1 ? -1 : content.indexOf(DAILY_LOG_END, start);
+    if (end !== -1) {
+        return content.slice(0, start) + log + content.slice(end + DAILY_LOG_END.length);
+    }
+    if (content.trim() === '') return `${log}\n`;
+    return `${content.replace(/\n*$/, '')}\n\n${log}\n`;
+}
+
+
+// --- NOTE TIME LOGS ---
+const CLOCK_TIME = String.raw`\d{1,2}(?::\d{2})?\s*(?:am|pm)?`;
+const TIME_LOG_LINE = new RegExp(String.raw`^\s*[-*+]\s+(?:\[.\]\s+)?(?:(${CLOCK_TIME})\s*[-–—]\s*(${CLOCK_TIME})|(\d[\d.:]*\s*(?:h\s*\d+\s*m(?:in)?|h|m(?:in)?)?))\s+(.+)$`, 'i');
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// Splits `Project / Task: notes`, taking the task after the last slash before the notes
+function parseTimeLogName(text: string): { project: string, task: string, notes: string } | null {
+    const colon = text.indexOf(':');
+    const name = colon === -1 ? text : text.slice(0, colon);
+    const slash = name.lastIndexOf('/');
+    if (slash === -1) return null;
+
+    const project = name.slice(0, slash).trim();
+    const task = name.slice(slash + 1).trim();
+    if (!project || !task) return null;
+    return { project, task, notes: colon === -1 ? '' : text.slice(colon + 1).trim() };
+}
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+// Hours from a start and end time if both are given, otherwise from a duration
+function timeLogHours(start: string, end: string, duration: string): { start: number | null, end: number | null, hours: number } | null {
+    const from = start ? parseTimeOfDay(start) : null;
+    const to = end ? parseTimeOfDay(end) : null;
+    if (from !== null && to !== null) return { start: from, end: to, hours: (to - from) / 60 };
+
+    const hours = parseDuration(duration);
+    return hours === null ? null : { start: null, end: null, hours };
+}
+
+// A markdown table with project, task and hours (or start and end) columns, in any order. Rows without a project
+// and task, such as total rows, are skipped.
+function parseTimeLogTable(lines: string[], first: number): { logs: NoteTimeLog[], next: number } {
+    const header = splitTableRow(lines[first]).map(cell => cell.replace(/\*/g, '').toLowerCase());
+    const column = (...names: string[]) => header.findIndex(cell => names.includes(cell));
+    const columns = {
+        date: column('date'), start: column('start', 'from'), end: column('end', 'to'), hours: column('hours', 'duration'),
+        project: column('project'), task: column('task'), notes: column('notes', 'description'),
+    };
+
+    let next = first + 2;
+    const logs: NoteTimeLog[] = [];
+    const usable = columns.project !== -1 && columns.task !== -1 && (columns.hours !== -1 || (columns.start !== -1 && columns.end !== -1));
+    for (; next < lines.length && lines[next].trim().startsWith('|'); next++) {
+        if (!usable) continue;
+        const cells = splitTableRow(lines[next]);
+        const cell = (index: number) => index === -1 ? '' : cells[index] ?? '';
+
+        const project = cell(columns.project);
+        const task = cell(columns.task);
+        const time = timeLogHours(cell(columns.start), cell(columns.end), cell(columns.hours));
+        if (!project || !task || !time) continue;
+
+        const date = cell(columns.date);
+        logs.push({ line: next, date: isISODate(date) ? date : null, ...time, project, task, notes: cell(columns.notes) });
+    }
+    return { logs, next };
+}
+
+// Finds time logged in a note as list items or table rows, skipping the daily note log the plugin writes itself
+export function parseTimeLogs(content: string): NoteTimeLog[] {
+    const lines = content.split('\n');
+    const logs: NoteTimeLog[] = [];
+    let inDailyLog = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.trim() === DAILY_LOG_START) inDailyLog = true;
+        if (inDailyLog) {
+            if (line.trim() === DAILY_LOG_END) inDailyLog = false;
+            continue;
+        }
+
+        if (line.trim().startsWith('|') && TABLE_SEPARATOR.test(lines[i + 1]?.trim() ?? '')) {
+            const table = parseTimeLogTable(lines, i);
+            logs.push(...table.logs);
+            i = table.next - 1;
+            continue;
+        }
+
+        const match = TIME_LOG_LINE.exec(line);
+        const name = match && parseTimeLogName(match[4]);
+        const time = match && timeLogHours(match[1] ?? '', match[2] ?? '', match[3] ?? '');
+        if (name && time) {
+            logs.push({ line: i, date: null, ...time, ...name });
+        }
+    }
+    return logs;
+}
+
+
+// --- ACCOUNT PROFILES ---
+const DEFAULT_PROFILE_NAME = 'Default';
+
+// What's been loaded from one profile's account. Kept for each profile, so switching back doesn't start over.
+const NO_PROFILE: HarvestProfile = { name: '', personalAccessToken: '', accountId: '', folders: [] };
+
+class ProfileSession {
+    userId: number | null = null;
+    accessRoles: string[] = [];
+    company: HarvestCompany | null = null;
+    projectCache: HarvestProjectFull[] = [];
+    taskAssignmentCache = new Map<number, HarvestTaskAssignment[]>();
     runningTimer: HarvestTimeEntry | null = null;
+    // When runningTimer was last fetched, so the status bar can count on from its hours between polls
+    timerSyncedAt = 0;
+    // Everyone in the account, loaded the first time a report names someone
+    users: HarvestCurrentUser[] | null = null;
+}
+
+export function findProfile(profiles: HarvestProfile[], name: string): HarvestProfile | null {
+    return profiles.find(profile => profile.name.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
+// The profile mapped to the closest folder containing `path`, if any
+export function profileForPath(profiles: HarvestProfile[], path: string): HarvestProfile | null {
+    let best: { profile: HarvestProfile, depth: number } | null = null;
+    for (const profile of profiles) {
+        for (const folder of profile.folders) {
+            const normalized = normalizePath(folder);
+            if (!normalized || (path !== normalized && !path.startsWith(`${normalized}/`))) continue;
+            if (!best || normalized.length > best.depth) best = { profile, depth: normalized.length };
+        }
+    }
+    return best?.profile ?? null;
+}
+
+function parseFolderList(value: string): string[] {
+    return value.split(',').map(folder => normalizePath(folder.trim())).filter(folder => folder && folder !== '/');
+}
+
+
+// --- TIME ENTRY CACHE ---
+const TIME_ENTRY_CACHE_FILE = 'time-entry-cache.json';
+// Days this recent are refetched whenever a report covers them, since entries may have been deleted
+const CACHE_RECENT_DAYS = 7;
+// How long fetched days and pulled updates count as fresh before Harvest is asked again
+const CACHE_FRESH_MS = 60 * 1000;
+// Pull updates from slightly before the last sync, in case this machine's clock is ahead of Harvest's
+const CACHE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+interface TimeEntryCacheData {
+    userId: number | null;
+    // Every change made in Harvest before this time is reflected in the cached days
+    syncedAt: number | null;
+    // Entries by spent date. A date is only present once all its entries have been fetched.
+    days: { [date: ISODate]: HarvestTimeEntry[] };
+}
+
+// The cache file holds one cache for each account's user. Earlier versions kept a single cache.
+type TimeEntryCacheFile = TimeEntryCacheData[] | TimeEntryCacheData;
+
+interface TimeEntriesResult {
+    entries: HarvestTimeEntry[];
+    // Set when Harvest couldn't be reached and the entries came from the cache as of this time
+    cachedAt: number | null;
+}
+
+class TimeEntryCache {
+    // When each day was last fetched, and updates last pulled, in this session
+    fetchedAt = new Map<ISODate, number>();
+    updatesPulledAt: number = 0;
+
+    constructor(public data: TimeEntryCacheData) {}
+
+    static empty(userId: number | null): TimeEntryCache {
+        return new TimeEntryCache({ userId, syncedAt: null, days: {} });
+    }
+
+    // Days between `from` and `to` that aren't cached, or are recent and haven't been fetched lately
+    staleDays(from: ISODate, to: ISODate, now: number): ISODate[] {
+        const recentFrom = formatDate(addDays(new Date(now), -(CACHE_RECENT_DAYS - 1)));
+        return daysBetween(from, to).filter(day => {
+            if (!this.data.days[day]) return true;
+            return day >= recentFrom && now - (this.fetchedAt.get(day) ?? 0) > CACHE_FRESH_MS;
+        });
+    }
+
+    entriesBetween(from: ISODate, to: ISODate): HarvestTimeEntry[] {
+        return daysBetween(from, to).flatMap(day => this.data.days[day] ?? []);
+    }
+
+    // Replaces every day from `from` to `to` with `entries`, which must be all the entries in that range
+    storeRange(from: ISODate, to: ISODate, entries: HarvestTimeEntry[], now: number) {
+        for (const day of daysBetween(from, to)) {
+            this.data.days[day] = [];
+            this.fetchedAt.set(day, now);
+        }
+        for (const entry of entries) {
+            this.data.days[entry.spent_date]?.push(entry);
+        }
+    }
+
+    // Applies entries changed in Harvest, including ones moved to another day
+    applyUpdates(entries: HarvestTimeEntry[]) {
+        const updatedIds = new Set(entries.map(entry => entry.id));
+        for (const day of Object.keys(this.data.days)) {
+            this.data.days[day] = this.data.days[day].filter(entry => !updatedIds.has(entry.id));
+        }
+        for (const entry of entries) {
+            this.data.days[entry.spent_date]?.push(entry);
+        }
+    }
+
+    // Called after changing entries, so the next report fetches them again
+    markStale() {
+        this.fetchedAt.clear();
+        this.updatesPulledAt = 0;
+    }
+}
+
+function daysBetween(from: ISODate, to: ISODate): ISODate[] {
+    const days: ISODate[] = [];
+    const end = parseISODate(to);
+    for (let day = parseISODate(from); day <= end; day = addDays(day, 1)) {
+        days.push(formatDate(day));
+    }
+    return days;
+}
+
+
+// --- HQL PROCESSOR ---
+const hqlProcessor = (plugin: HarvestPlugin) => async (
+    source: string,
+    el: HTMLElement,
+    ctx: MarkdownPostProcessorContext
+) => {
+    const showError = (e: unknown) => {
+        if (e instanceof HarvestApiError) {
+            el.setText(`Failed to fetch report: ${e.message}`);
+        } else {
+            el.setText(`Error processing Harvest query: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    };
+
+    let query: HarvestQuery;
+    try {
+        query = parseQuery(source, plugin.queryContext(ctx.sourcePath));
+    } catch (e) {
+        showError(e);
+        return;
+    }
+
+    el.setText('Loading report...');
+
+    // Replaces the code block with the frozen report, then lets the caller update the note further
+    const freezeBlock = async (serialize: () => string, afterFreeze?: (file: TFile) => Promise<void>) => {
+        const sectionInfo = ctx.getSectionInfo(el);
+        if (!sectionInfo) {
+            new Notice('Could not locate code block in file.');
+            return;
+        }
+
+        const file = plugin.app.vault.getAbstractFileByPath(ctx.sourcePath);
+        if (!file || !(file instanceof TFile)) {
+            new Notice('Could not find the file to update.');
+            return;
+        }
+
+        let markdown: string;
+        try {
+            markdown = serialize();
+        } catch (e) {
+            new Notice(e instanceof Error ? e.message : String(e));
+            return;
+        }
+
+        // Read the file and replace the code block
+        const content = await plugin.app.vault.read(file);
+        const lines = content.split('\n');
+
+        // Replace the lines from lineStart to lineEnd (inclusive) with the markdown
+        const newLines = [
+            ...lines.slice(0, sectionInfo.lineStart),
+            markdown,
+            ...lines.slice(sectionInfo.lineEnd + 1)
+        ];
+
+        await plugin.app.vault.modify(file, newLines.join('\n'));
+        await afterFreeze?.(file);
+        new Notice('Results have been frozen.');
+    };
+
+    if (query.type === QueryType.BUDGET) {
+        try {
+            const budgets = await plugin.getProjectBudgets(query);
+            renderBudgets(el, budgets, query, () => freezeBlock(() => plugin.freezeBudgetMarkdown(budgets, query, source)));
+        } catch (e) {
+            showError(e);
+        }
+        return;
+    }
+
+    // Timesheet grids can only be typed into when the account tracks durations rather than start and end times
+    let readOnlyReason: string | null = null;
+    if (query.type === QueryType.TIMESHEET) {
+        const company = await plugin.getCompany();
+        if (!company) {
+            readOnlyReason = 'Could not load your Harvest account settings, so the timesheet is read-only.';
+        } else if (company.wants_timestamp_timers) {
+            readOnlyReason = 'Your Harvest account tracks start and end times, so hours can\'t be typed into the grid.';
+        }
+    }
+    const extraRows: TimesheetRowKey[] = [];
+
+    // Renders the report, fetching entries afresh rather than from the cache after the grid has changed them
+    const load = async (refetch: boolean) => {
+        try {
+            const { entries, cachedAt } = await plugin.getTimeEntries(query, (loadedPages, totalPages) => {
+                if (totalPages > 1) el.setText(`Loading report... (${loadedPages}/${totalPages} pages)`);
+            }, refetch);
+
+            const onFreeze = () => freezeBlock(
+                () => plugin.freezeMarkdown(entries, query, source),
+                file => plugin.saveFrozenTotals(file, entries, query));
+
+            const grid: TimesheetGridOptions = {
+                extraRows,
+                readOnlyReason: cachedAt !== null ? 'Offline: the timesheet is read-only until Harvest can be reached.' : readOnlyReason,
+                onEdit: async (row, date, hours) => {
+                    const changed = await plugin.setTimesheetHours(row, date, hours);
+                    await load(changed);
+                },
+                onAddRow: () => {
+                    new ProjectSuggestModal(plugin.app, plugin, plugin.app.workspace.getActiveFile(), (project, taskAssignment) => {
+                        extraRows.push({ client: project.client, project: { id: project.id, name: project.name, code: project.code }, task: taskAssignment.task });
+                        void load(false);
+                    }).open();
+                },
+            };
+
+            renderReport(el, entries, query, onFreeze, (evt) => plugin.showExportMenu(evt, entries, query), grid);
+            if (cachedAt !== null) {
+                el.createDiv({ cls: 'harvest-cached-marker', text: `Offline: cached at ${new Date(cachedAt).toLocaleString()}` });
+            }
+        } catch (e) {
+            showError(e);
+        }
+    };
+
+    await load(false);
+};
+
+
+// Settings interface
+interface HarvestPluginSettings {
+    // The only account's credentials from before profiles, moved into the first profile when loaded
+    personalAccessToken: string;
+    accountId: string;
+    profiles: HarvestProfile[];
+    activeProfile: string;
+    // The OAuth2 application used to sign in through Harvest ID. The secret names a secret in SecretStorage.
+    oauthClientId: string;
+    oauthClientSecret: string;
+    pollingInterval: number;
+    statusBarFormat: string;
+    weekStart: number;
+    pageSize: number;
+    maxConcurrentRequests: number;
+    noteLinkMode: NoteLinkMode;
+    folderProjectCache: FolderProjectCache;
+    offlineQueue: QueuedAction[];
+    exportColumns: string;
+    freezeStyle: FreezeStyle;
+    freezeColumns: string;
+    freezeKeepQuery: boolean;
+    freezeProperties: boolean;
+    idleDetection: boolean;
+    idleMinutes: number;
+    dailyNoteLog: boolean;
+    dailyNoteFolder: string;
+    dailyNoteFormat: string;
+    dailyNoteLogTime: string;
+    credentialsMigrated: boolean;
+}
+
+// Default settings
+export const DEFAULT_SETTINGS: HarvestPluginSettings = {
+    personalAccessToken: '',
+    accountId: '',
+    profiles: [],
+    activeProfile: DEFAULT_PROFILE_NAME,
+    oauthClientId: '',
+    oauthClientSecret: '',
+    pollingInterval: 5, // 5 minutes
+    statusBarFormat: DEFAULT_STATUS_BAR_FORMAT,
+    weekStart: 1, // Monday
+    pageSize: 100, // Harvest allows up to 2000
+    maxConcurrentRequests: 3,
+    noteLinkMode: 'none',
+    folderProjectCache: {},
+    offlineQueue: [],
+    exportColumns: DEFAULT_EXPORT_COLUMNS,
+    freezeStyle: 'callout',
+    freezeColumns: DEFAULT_FREEZE_COLUMNS,
+    freezeKeepQuery: true,
+    freezeProperties: false,
+    idleDetection: false,
+    idleMinutes: 10,
+    dailyNoteLog: false,
+    dailyNoteFolder: '',
+    dailyNoteFormat: DEFAULT_DAILY_NOTE_FORMAT,
+    dailyNoteLogTime: '',
+    credentialsMigrated: false,
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Any of these in the Obsidian window counts as activity for idle detection
+const IDLE_ACTIVITY_EVENTS: (keyof DocumentEventMap)[] = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'];
+
+function minutesSinceMidnight(timestamp: number): number {
+    const date = new Date(timestamp);
+    return date.getHours() * 60 + date.getMinutes();
+}
+
+// Helper function to format decimal hours as h:mm
+function formatHoursMinutes(decimalHours: number): string {
+    const hours = Math.floor(decimalHours);
+    const minutes = Math.floor((decimalHours - hours) * 60);
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+}
+
+// Parses a duration typed by the user into decimal hours. Accepts h:mm (1:30), decimal hours (1.5 or 1.5h),
+// minutes (90m) and combinations (1h30m). Returns null if the text isn't a duration.
+function parseDuration(text: string): number | null {
+    const value = text.trim().toLowerCase();
+    let match: RegExpExecArray | null;
+
+    if ((match = /^(\d+):(\d{1,2})$/.exec(value))) {
+        const minutes = parseInt(match[2]);
+        return minutes < 60 ? parseInt(match[1]) + minutes / 60 : null;
+    }
+    if ((match = /^(\d+(?:\.\d+)?)\s*h?$/.exec(value))) {
+        return parseFloat(match[1]);
+    }
+    if ((match = /^(\d+)\s*m(?:in)?$/.exec(value))) {
+        return parseInt(match[1]) / 60;
+    }
+    if ((match = /^(\d+)\s*h\s*(\d+)\s*m(?:in)?$/.exec(value))) {
+        return parseInt(match[1]) + parseInt(match[2]) / 60;
+    }
+    return null;
+}
+
+// Parses a time of day (9:00, 13:30, 9am, 1:30pm) into minutes since midnight, or null if invalid
+function parseTimeOfDay(text: string): number | null {
+    const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text.trim().toLowerCase());
+    if (!match) return null;
+
+    let hours = parseInt(match[1]);
+    const minutes = match[2] ? parseInt(match[2]) : 0;
+    const meridiem = match[3];
+    if (minutes > 59) return null;
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null;
+        hours = hours % 12 + (meridiem === 'pm' ? 12 : 0);
+    } else if (hours > 23) {
+        return null;
+    }
+    return hours * 60 + minutes;
+}
+
+// The change that winds a just stopped entry back to `at`. Harvest counted the hours up to its own stop time, which
+// the stop request may have taken a while to reach.
+function stopCorrection(stopped: HarvestTimeEntry, at: number, useTimestamps: boolean): Record<string, unknown> {
+    const stoppedAt = Date.parse(stopped.updated_at);
+    return useTimestamps
+        ? { ended_time: formatTimeOfDay(minutesSinceMidnight(at)) }
+        : { hours: Math.max(0, stopped.hours - (stoppedAt - at) / HOUR_MS) };
+}
+
+// Formats minutes since midnight the way Harvest expects started_time and ended_time, e.g. 1:30pm
+function formatTimeOfDay(totalMinutes: number): string {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+    return `${displayHours}:${minutes.toString().padStart(2, '0')}${hours < 12 ? 'am' : 'pm'}`;
+}
+
+// Main Plugin Class
+export default class HarvestPlugin extends Plugin {
+    settings!: HarvestPluginSettings;
+    statusBarItemEl!: HTMLElement;
+    todayTotal: number | null = null;
+    weekTotal: number | null = null;
     timerInterval!: number;
-    projectCache: HarvestProjectFull[] = [];
-    userId: number | null = null;
+    tickInterval!: number;
+    sessions = new Map<HarvestProfile, ProfileSession>();
+    // The sign-in waiting for Harvest ID to redirect back, matched by its state
+    pendingSignIn: { state: string, profile: HarvestProfile } | null = null;
+    // Token renewals in progress, so concurrent requests wait for one rather than each starting their own
+    tokenRefreshes = new Map<HarvestProfile, Promise<void>>();
+    settingTab: HarvestSettingTab | null = null;
     isOffline: boolean = false;
+    isReplayingQueue: boolean = false;
+    transport: HarvestTransport = requestUrlTransport;
+    // GETs currently in flight by endpoint, so identical requests (e.g. from several report blocks) share one fetch
+    inFlightGets: Map<string, Promise<unknown>> = new Map();
+    // While Harvest is rate limiting us, every request waits until this time rather than only the one that hit the limit
+    rateLimitedUntil: number = 0;
+    // Last mouse or keyboard activity in Obsidian, for idle detection
+    lastActivityAt: number = Date.now();
+    // The running timer the user was last asked about stopping after ticking off its task line
+    offeredStopTimerId: number | null = null;
+    // The day the daily note log was last written at the configured time, so it's only written once a day
+    dailyLogWrittenOn: ISODate | null = null;
+    // Each account's cached entries by its user ID, loaded from the plugin folder on first use
+    timeEntryCaches: Map<number | null, TimeEntryCache> | null = null;
+
+    // The active profile's user, projects, company and timer, as the rest of the plugin works in that account
+    get userId(): number | null { return this.session.userId; }
+    set userId(value: number | null) { this.session.userId = value; }
+    get accessRoles(): string[] { return this.session.accessRoles; }
+    set accessRoles(value: string[]) { this.session.accessRoles = value; }
+    get company(): HarvestCompany | null { return this.session.company; }
+    set company(value: HarvestCompany | null) { this.session.company = value; }
+    get projectCache(): HarvestProjectFull[] { return this.session.projectCache; }
+    set projectCache(value: HarvestProjectFull[]) { this.session.projectCache = value; }
+    get taskAssignmentCache(): Map<number, HarvestTaskAssignment[]> { return this.session.taskAssignmentCache; }
+    get runningTimer(): HarvestTimeEntry | null { return this.session.runningTimer; }
+    set runningTimer(value: HarvestTimeEntry | null) { this.session.runningTimer = value; }
+    get timerSyncedAt(): number { return this.session.timerSyncedAt; }
+    set timerSyncedAt(value: number) { this.session.timerSyncedAt = value; }
+
+    get activeProfile(): HarvestProfile | null {
+        return findProfile(this.settings.profiles, this.settings.activeProfile) ?? this.settings.profiles[0] ?? null;
+    }
+
+    get session(): ProfileSession {
+        return this.sessionFor(this.activeProfile);
+    }
+
+    sessionFor(profile: HarvestProfile | null): ProfileSession {
+        // Without any profile there's nothing to load, but callers still need somewhere to keep it
+        const key = profile ?? NO_PROFILE;
+        let session = this.sessions.get(key);
+        if (!session) {
+            session = new ProfileSession();
+            this.sessions.set(key, session);
+        }
+        return session;
+    }
+
+    async onload() {
+        //Read in settings
+        await this.loadSettings();
+        await this.migrateCredentials();
+        await this.migrateProfiles();
+
+        // Set up status bar
+        this.statusBarItemEl = this.addStatusBarItem();
+        this.statusBarItemEl.setText('Harvest');
+        this.statusBarItemEl.addClass('mod-clickable');
+        this.statusBarItemEl.addEventListener('click', (evt) => this.showStatusBarMenu(evt));
+
+        // Set up settings
+        this.settingTab = new HarvestSettingTab(this.app, this);
+        this.addSettingTab(this.settingTab);
+        this.registerObsidianProtocolHandler(SIGN_IN_PROTOCOL_ACTION, params => void this.completeSignIn(params));
+
+        // Initial loading of user and projects (silent on startup to avoid popup spam if offline)
+        if (this.activeProfile?.personalAccessToken && this.activeProfile.accountId) {
+            await this.fetchCurrentUserId(true);
+        }
+
+        // Warm up the project cache on startup
+        void this.fetchAllTrackableProjects();
+
+        this.addCommand({
+            id: 'start-timer',
+            name: 'Start timer',
+            callback: () => {
+                void new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile()).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'start-timer-for-note',
+            name: 'Start timer for this note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) return false;
+                if (!checking) {
+                    void this.startTimerForNote(file);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'log-time',
+            name: 'Log time',
+            callback: () => {
+                this.logTimeWithPickers();
+            }
+        });
+
+        this.addCommand({
+            id: 'stop-timer',
+            name: 'Stop timer',
+            callback: async () => {
+                await this.stopRunningTimer();
+            }
+        });
+
+        this.addCommand({
+            id: 'toggle-timer',
+            name: 'Toggle timer',
+            callback: async () => {
+                await this.toggleTimer();
+            }
+        });
+
+        this.addCommand({
+            id: 'refresh-projects',
+            name: 'Refresh projects',
+            callback: async () => {
+                new Notice('Refreshing project list...');
+                this.taskAssignmentCache.clear();
+                await this.fetchAllTrackableProjects(true); // Force a refresh
+                new Notice('Project list has been updated.');
+            }
+        });
+
+        this.addCommand({
+            id: 'refresh-frozen-snapshots',
+            name: 'Refresh frozen snapshots in this note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+                if (!checking) {
+                    void this.refreshSnapshots(file);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'export-query',
+            name: 'Export query results',
+            callback: () => {
+                new ExportModal(this.app, this, 'csv', null).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'clear-time-entry-cache',
+            name: 'Clear cached time entries',
+            callback: async () => {
+                this.timeEntryCaches = new Map();
+                await this.saveTimeEntryCache();
+                new Notice('Cached time entries have been cleared.');
+            }
+        });
+
+        this.addCommand({
+            id: 'start-timer-from-line',
+            name: 'Start timer from this line',
+            editorCheckCallback: (checking, editor, ctx) => {
+                const line = editor.getLine(editor.getCursor().line);
+                if (!parseTaskLine(line)) return false;
+                if (!checking) void this.startTimerFromLine(line, ctx.file);
+                return true;
+            }
+        });
+
+        // Opening a note doesn't switch accounts under a running timer; the command still can
+        this.registerEvent(this.app.workspace.on('file-open', file => {
+            const profile = file && profileForPath(this.settings.profiles, file.path);
+            if (profile && profile !== this.activeProfile && !this.runningTimer) void this.switchProfile(profile.name);
+        }));
+
+        this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, info) => {
+            const line = editor.getLine(editor.getCursor().line);
+            if (!parseTaskLine(line)) return;
+            menu.addItem(item => item
+                .setTitle('Start Harvest timer')
+                .setIcon('play')
+                .onClick(() => void this.startTimerFromLine(line, info.file)));
+        }));
+
+        // Ticking a checkbox in live preview doesn't move the cursor, so the whole note is checked after edits settle
+        const checkTickedTasks = debounce((editor: Editor) => this.offerStopForTickedTask(editor), 500, true);
+        this.registerEvent(this.app.workspace.on('editor-change', editor => checkTickedTasks(editor)));
+
+        this.addCommand({
+            id: 'switch-profile',
+            name: 'Switch Harvest account',
+            checkCallback: (checking: boolean) => {
+                if (this.settings.profiles.length < 2) return false;
+                if (!checking) {
+                    this.switchProfileWithPicker();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'import-time-logs',
+            name: 'Import time logs from this note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+                if (!checking) {
+                    void this.importTimeLogs(file);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'update-daily-note-log',
+            name: 'Update time log in today\'s daily note',
+            callback: () => void this.writeDailyNoteLog(new Date(), false)
+        });
+
+        this.registerView(TIMESHEET_VIEW_TYPE, (leaf) => new TimesheetView(leaf, this));
+
+        this.addCommand({
+            id: 'open-timesheet',
+            name: 'Open timesheet',
+            callback: () => {
+                void this.activateTimesheetView();
+            }
+        });
+
+        // Register HQL code block processor
+        this.registerMarkdownCodeBlockProcessor('harvest', hqlProcessor(this));
+
+        // Use the polling interval from settings
+        const pollingMinutes = this.settings.pollingInterval > 0 ? this.settings.pollingInterval : 5;
+        this.timerInterval = window.setInterval(() => void this.renewExpiringSignIns(pollingMinutes * 60 * 1000)
+            .then(() => this.updateRunningTimer()), pollingMinutes * 60 * 1000);
+
+        // Check back in as soon as the connection returns, so queued offline actions are sent promptly
+        this.registerDomEvent(window, 'online', () => void this.updateRunningTimer());
+
+        // Idle detection notices a long gap since the last activity on the first activity after it, which also
+        // covers the computer having been asleep
+        for (const type of IDLE_ACTIVITY_EVENTS) {
+            this.registerDomEvent(document, type, () => this.recordActivity(), { passive: true });
+        }
+        this.registerDomEvent(window, 'focus', () => this.recordActivity());
+
+        this.registerInterval(window.setInterval(() => void this.checkDailyNoteLogTime(), 60 * 1000));
+
+        // Tick the status bar locally between polls
+        this.tickInterval = window.setInterval(() => this.renderStatusBar(), 1000);
+
+        void this.updateRunningTimer();
+    }
+
+    onunload() {
+        if (this.timerInterval) {
+            activeWindow.clearInterval(this.timerInterval);
+        }
+        if (this.tickInterval) {
+            activeWindow.clearInterval(this.tickInterval);
+        }
+    }
+
+    async loadSettings() {
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData()) as HarvestPluginSettings;
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    async migrateCredentials() {
+        if (this.settings.credentialsMigrated) return;
+
+        const rawToken = this.settings.personalAccessToken;
+        const rawAccountId = this.settings.accountId;
+
+        if (rawToken) {
+            this.app.secretStorage.setSecret('harvest-token', rawToken);
+            this.settings.personalAccessToken = 'harvest-token';
+        }
+        if (rawAccountId) {
+            this.app.secretStorage.setSecret('harvest-account-id', rawAccountId);
+            this.settings.accountId = 'harvest-account-id';
+        }
+
+        this.settings.credentialsMigrated = true;
+        await this.saveSettings();
+    }
+
+    // Settings from before profiles had a single set of credentials, which become the first profile
+    async migrateProfiles() {
+        if (this.settings.profiles.length > 0) return;
+
+        this.settings.profiles = [{
+            name: DEFAULT_PROFILE_NAME,
+            personalAccessToken: this.settings.personalAccessToken,
+            accountId: this.settings.accountId,
+            folders: [],
+        }];
+        this.settings.activeProfile = DEFAULT_PROFILE_NAME;
+        this.settings.personalAccessToken = '';
+        this.settings.accountId = '';
+        await this.saveSettings();
+    }
+
+    // Makes another profile the active one. Actions queued offline are left to be sent from the profile they were
+    // taken in first, and a running timer keeps running in its own account.
+    async switchProfile(name: string) {
+        const profile = findProfile(this.settings.profiles, name);
+        const previous = this.activeProfile;
+        if (!profile || profile === previous) return;
+        if (this.settings.offlineQueue.length > 0) {
+            new Notice(`Can't switch to ${profile.name} while there are changes waiting to be sent to Harvest.`);
+            return;
+        }
+
+        const runningTimer = this.runningTimer;
+        this.settings.activeProfile = profile.name;
+        await this.saveSettings();
+        this.todayTotal = null;
+        this.weekTotal = null;
+        this.renderStatusBar();
+
+        const stillRunning = runningTimer && previous ? ` Your timer for ${runningTimer.project.name} is still running in ${previous.name}.` : '';
+        new Notice(`Switched to the ${profile.name} Harvest account.${stillRunning}`);
+
+        if (!this.userId) await this.fetchCurrentUserId(true);
+        void this.fetchAllTrackableProjects();
+        await this.updateRunningTimer();
+    }
+
+    switchProfileWithPicker() {
+        new ProfileSuggestModal(this.app, this.settings.profiles, profile => void this.switchProfile(profile.name)).open();
+    }
+
+    // Sends a request, showing a notice and returning null if it fails. Use `send` to handle failures yourself.
+    async request<T = unknown>(
+        endpoint: string,
+        method: string = 'GET',
+        body: Record<string, unknown> | null = null,
+        silent: boolean = false
+    ): Promise<T | null> {
+        try {
+            return await this.send<T>(endpoint, method, body);
+        } catch (error) {
+            if (!(error instanceof HarvestApiError)) throw error;
+            if (!silent) {
+                new Notice(error.kind === HarvestErrorKind.OFFLINE ? error.message : `Harvest API error: ${error.message}`);
+            }
+            return null;
+        }
+    }
+
+    // Sends a request, throwing a HarvestApiError if it fails. Identical GETs already in flight share one request.
+    // Requests go to the active profile's account unless another profile is given.
+    send<T = unknown>(endpoint: string, method: string = 'GET', body: Record<string, unknown> | null = null, profile: HarvestProfile | null = this.activeProfile): Promise<T> {
+        if (method !== 'GET') {
+            if (endpoint.startsWith('/time_entries')) this.timeEntryCaches?.get(this.sessionFor(profile).userId)?.markStale();
+            return this.sendWithRetries<T>(endpoint, method, body, profile);
+        }
+
+        const key = `${profile?.name ?? ''} ${endpoint}`;
+        const pending = this.inFlightGets.get(key);
+        if (pending) return pending as Promise<T>;
+
+        const request = this.sendWithRetries<T>(endpoint, method, null, profile)
+            .finally(() => this.inFlightGets.delete(key));
+        this.inFlightGets.set(key, request);
+        return request;
+    }
+
+    private async sendWithRetries<T>(endpoint: string, method: string, body: Record<string, unknown> | null, profile: HarvestProfile | null): Promise<T> {
+        if (profile?.oauth && Date.now() > profile.oauth.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+            await this.refreshSignIn(profile);
+        }
+        let headers = this.apiHeaders(profile);
+        let refreshed = false;
+
+        for (let attempt = 0; ; attempt++) {
+            const wait = this.rateLimitedUntil - Date.now();
+            if (wait > 0) await sleep(wait);
+
+            let response: HarvestResponse;
+            try {
+                response = await this.transport.send({
+                    url: `https://api.harvestapp.com/v2${endpoint}`,
+                    method: method,
+                    headers: headers,
+                    body: body ? JSON.stringify(body) : undefined
+                });
+            } catch (error) {
+                // Network error - mark as offline
+                this.isOffline = true;
+                console.error('Harvest API request error:', error);
+                throw new HarvestApiError(HarvestErrorKind.OFFLINE, 'Failed to connect to API.');
+            }
+
+            // Any response means we're back online
+            if (this.isOffline) {
+                this.isOffline = false;
+                void this.replayOfflineQueue();
+            }
+
+            if (response.status < 400) {
+                // Deletions succeed with an empty body
+                try {
+                    return response.json as T;
+                } catch {
+                    return null as T;
+                }
+            }
+
+            // Access tokens can be revoked before they expire, so a signed-in profile renews its token once and tries again
+            if (response.status === 401 && profile?.oauth && !refreshed) {
+                await this.refreshSignIn(profile);
+                headers = this.apiHeaders(profile);
+                refreshed = true;
+                continue;
+            }
+
+            const canRetry = attempt < MAX_RETRIES;
+            if (response.status === 429 && canRetry) {
+                const retryAfter = Number(headerValue(response.headers, 'Retry-After'));
+                const delaySeconds = retryAfter > 0 ? retryAfter : DEFAULT_RETRY_AFTER_SECONDS;
+                this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delaySeconds * 1000);
+                continue;
+            }
+            // A POST that failed server-side may still have created something, so only retry requests that are safe to repeat
+            if (response.status >= 500 && method !== 'POST' && canRetry) {
+                await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+                continue;
+            }
+            throw harvestApiError(response);
+        }
+    }
+
+    private apiHeaders(profile: HarvestProfile | null): Record<string, string> {
+        const token = profile && (this.app.secretStorage.getSecret(profile.personalAccessToken) ?? profile.personalAccessToken);
+        const accountId = profile && (this.app.secretStorage.getSecret(profile.accountId) ?? profile.accountId);
+
+        if (!token || !accountId) {
+            throw new HarvestApiError(HarvestErrorKind.AUTH, 'Harvest API credentials are not set.');
+        }
+        return {
+            'Authorization': `Bearer ${token}`,
+            'Harvest-Account-Id': accountId,
+            'User-Agent': USER_AGENT,
+            'Content-Type': 'application/json'
+        };
+    }
+
+    // Sends the user to Harvest ID to sign in to `profile`. Harvest ID redirects back to completeSignIn.
+    beginSignIn(profile: HarvestProfile) {
+        if (!this.settings.oauthClientId || !this.getClientSecret()) {
+            new Notice('Set the OAuth client ID and secret in the plugin settings before signing in.');
+            return;
+        }
+
+        const state = crypto.randomUUID();
+        this.pendingSignIn = { state, profile };
+        const params = new URLSearchParams({ client_id: this.settings.oauthClientId, response_type: 'code', state });
+        window.open(`${HARVEST_ID_ROOT}/oauth2/authorize?${params.toString()}`);
+    }
+
+    // Handles the redirect from Harvest ID: trades the code for tokens, then has the user pick which of their
+    // Harvest accounts the profile is for. Failures are shown rather than thrown, as the protocol handler doesn't wait.
+    async completeSignIn(params: ObsidianProtocolData) {
+        const pending = this.pendingSignIn;
+        if (!pending || params.state !== pending.state) {
+            new Notice('This Harvest sign-in wasn\'t started from here, or has been replaced by a newer one. Try signing in again.');
+            return;
+        }
+        this.pendingSignIn = null;
+        if (!params.code) {
+            new Notice(`Harvest sign-in failed: ${params.error_description ?? params.error ?? 'no authorization code was returned'}.`);
+            return;
+        }
+
+        try {
+            const tokens = await this.requestTokens({ grant_type: 'authorization_code', code: params.code });
+            const { accounts } = await this.sendToHarvestId<HarvestIdAccountsResponse>('/api/v2/accounts', 'GET', { 'Authorization': `Bearer ${tokens.access_token}` });
+            const harvestAccounts = accounts.filter(account => account.product === 'harvest');
+            if (harvestAccounts.length === 0) {
+                new Notice('There are no Harvest accounts to use with this sign-in.');
+                return;
+            }
+
+            if (harvestAccounts.length === 1) {
+                await this.saveSignIn(pending.profile, tokens, harvestAccounts[0]);
+            } else {
+                new HarvestAccountSuggestModal(this.app, harvestAccounts, account => void this.saveSignIn(pending.profile, tokens, account)).open();
+            }
+        } catch (error) {
+            new Notice(`Harvest sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Like completeSignIn, shows failures rather than throwing them, as the account picker doesn't wait
+    async saveSignIn(profile: HarvestProfile, tokens: HarvestOAuthTokens, account: HarvestIdAccount) {
+        try {
+            // Signing in again reuses the profile's secrets
+            const prefix = `harvest-oauth-${Date.now().toString(36)}`;
+            const accountSecret = profile.oauth ? profile.accountId : `${prefix}-account-id`;
+            if (!profile.oauth) {
+                profile.personalAccessToken = `${prefix}-token`;
+                profile.oauth = { refreshToken: `${prefix}-refresh-token`, expiresAt: 0 };
+            }
+            this.app.secretStorage.setSecret(accountSecret, String(account.id));
+            profile.accountId = accountSecret;
+            this.storeTokens(profile, tokens);
+            await this.saveSettings();
+
+            this.sessions.delete(profile);
+            new Notice(`Signed in to ${account.name}.`);
+            this.settingTab?.display();
+            if (profile === this.activeProfile) {
+                await this.fetchCurrentUserId();
+                void this.fetchAllTrackableProjects(true);
+                await this.updateRunningTimer();
+            }
+        } catch (error) {
+            new Notice(`Harvest sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async signOut(profile: HarvestProfile) {
+        if (profile.oauth) {
+            this.app.secretStorage.setSecret(profile.personalAccessToken, '');
+            this.app.secretStorage.setSecret(profile.oauth.refreshToken, '');
+            this.app.secretStorage.setSecret(profile.accountId, '');
+        }
+        profile.oauth = undefined;
+        profile.personalAccessToken = '';
+        profile.accountId = '';
+        await this.saveSettings();
+        this.sessions.delete(profile);
+        if (profile === this.activeProfile) {
+            this.runningTimer = null;
+            this.renderStatusBar();
+        }
+    }
+
+    refreshSignIn(profile: HarvestProfile): Promise<void> {
+        let refresh = this.tokenRefreshes.get(profile);
+        if (!refresh) {
+            refresh = this.renewTokens(profile).finally(() => this.tokenRefreshes.delete(profile));
+            this.tokenRefreshes.set(profile, refresh);
+        }
+        return refresh;
+    }
+
+    // Renews the tokens of every signed-in profile that would otherwise expire before the next poll, so accounts
+    // not in use stay signed in too. A refused renewal is left for the next request to report.
+    async renewExpiringSignIns(withinMs: number) {
+        for (const profile of this.settings.profiles) {
+            if (!profile.oauth || Date.now() <= profile.oauth.expiresAt - TOKEN_REFRESH_MARGIN_MS - withinMs) continue;
+            try {
+                await this.refreshSignIn(profile);
+            } catch (error) {
+                if (!(error instanceof HarvestApiError)) throw error;
+            }
+        }
+    }
+
+    // Trades the refresh token for new tokens. Harvest ID rotates refresh tokens, so both are stored again.
+    private async renewTokens(profile: HarvestProfile) {
+        const refreshToken = profile.oauth && this.app.secretStorage.getSecret(profile.oauth.refreshToken);
+        if (!refreshToken) throw new HarvestApiError(HarvestErrorKind.AUTH, SIGN_IN_EXPIRED_MESSAGE);
+
+        let tokens: HarvestOAuthTokens;
+        try {
+            tokens = await this.requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken });
+        } catch (error) {
+            // Harvest ID refuses a revoked or already used refresh token with a 400
+            if (error instanceof HarvestApiError && (error.status === 400 || error.status === 401)) {
+                throw new HarvestApiError(HarvestErrorKind.AUTH, SIGN_IN_EXPIRED_MESSAGE, error.status);
+            }
+            throw error;
+        }
+        this.storeTokens(profile, tokens);
+        await this.saveSettings();
+    }
+
+    private storeTokens(profile: HarvestProfile, tokens: HarvestOAuthTokens) {
+        if (!profile.oauth) return;
+        this.app.secretStorage.setSecret(profile.personalAccessToken, tokens.access_token);
+        this.app.secretStorage.setSecret(profile.oauth.refreshToken, tokens.refresh_token);
+        profile.oauth.expiresAt = Date.now() + tokens.expires_in * 1000;
+    }
+
+    private getClientSecret(): string {
+        return this.app.secretStorage.getSecret(this.settings.oauthClientSecret) ?? this.settings.oauthClientSecret;
+    }
+
+    private requestTokens(fields: Record<string, string>): Promise<HarvestOAuthTokens> {
+        const body = new URLSearchParams({ ...fields, client_id: this.settings.oauthClientId, client_secret: this.getClientSecret() });
+        return this.sendToHarvestId<HarvestOAuthTokens>('/api/v2/oauth2/token', 'POST',
+            { 'Content-Type': 'application/x-www-form-urlencoded' }, body.toString());
+    }
+
+    private async sendToHarvestId<T>(path: string, method: string, headers: Record<string, string>, body?: string): Promise<T> {
+        let response: HarvestResponse;
+        try {
+            response = await this.transport.send({ url: `${HARVEST_ID_ROOT}${path}`, method, headers: { 'User-Agent': USER_AGENT, ...headers }, body });
+        } catch (error) {
+            this.isOffline = true;
+            console.error('Harvest ID request error:', error);
+            throw new HarvestApiError(HarvestErrorKind.OFFLINE, 'Failed to connect to Harvest ID.');
+        }
+        if (response.status >= 400) throw harvestApiError(response);
+        return response.json as T;
+    }
+
+    async fetchCurrentUserId(silent: boolean = false) {
+        const me = await this.request<HarvestCurrentUser>('/users/me', 'GET', null, silent);
+        if (me && me.id) {
+            this.userId = me.id;
+            this.accessRoles = me.access_roles ?? [];
+        } else {
+            this.userId = null;
+            this.accessRoles = [];
+            if (!silent && !this.isOffline) {
+                new Notice('Could not retrieve user ID.');
+            }
+            console.error('Failed to fetch user ID.');
+        }
+    }
+    
+    // Fetches every page of a Harvest list endpoint, showing a notice and returning null if any page fails,
+    // so callers never mistake a truncated list for a complete one
+    async requestAllPages<R extends HarvestPaginatedResponse, T>(
+        endpoint: string,
+        getItems: (response: R) => T[],
+        silent: boolean = false,
+        onProgress?: PageProgressCallback
+    ): Promise<T[] | null> {
+        try {
+            return await this.sendAllPages(endpoint, getItems, onProgress);
+        } catch (error) {
+            if (!(error instanceof HarvestApiError)) throw error;
+            if (!silent) {
+                new Notice(error.kind === HarvestErrorKind.OFFLINE ? error.message : `Harvest API error: ${error.message}`);
+            }
+            return null;
+        }
+    }
+
+    // Fetches every page of a Harvest list endpoint, throwing a HarvestApiError if any page fails. The first page
+    // is fetched on its own to learn the page count, the rest in batches of at most `maxConcurrentRequests`.
+    async sendAllPages<R extends HarvestPaginatedResponse, T>(
+        endpoint: string,
+        getItems: (response: R) => T[],
+        onProgress?: PageProgressCallback,
+        profile: HarvestProfile | null = this.activeProfile
+    ): Promise<T[]> {
+        const pageSize = this.settings.pageSize > 0 ? Math.min(this.settings.pageSize, 2000) : 100;
+        const concurrency = this.settings.maxConcurrentRequests > 0 ? this.settings.maxConcurrentRequests : 1;
+        const separator = endpoint.includes('?') ? '&' : '?';
+        const fetchPage = (page: number) => this.send<R>(`${endpoint}${separator}page=${page}&per_page=${pageSize}`, 'GET', null, profile);
+
+        const first = await fetchPage(1);
+
+        const totalPages = first.total_pages || 1;
+        const items = [...getItems(first)];
+        let loadedPages = 1;
+        onProgress?.(loadedPages, totalPages);
+
+        for (let batchStart = 2; batchStart <= totalPages; batchStart += concurrency) {
+            const pages: number[] = [];
+            for (let page = batchStart; page < batchStart + concurrency && page <= totalPages; page++) {
+                pages.push(page);
+            }
+            const responses = await Promise.all(pages.map(fetchPage));
+            for (const response of responses) {
+                items.push(...getItems(response));
+            }
+            loadedPages += responses.length;
+            onProgress?.(loadedPages, totalPages);
+        }
+
+        return items;
+    }
+
+    // Builds the context relative HQL time ranges are resolved against for the note at `sourcePath`
+    queryContext(sourcePath: string): QueryContext {
+        return {
+            today: new Date(),
+            weekStart: this.settings.weekStart,
+            sourcePath,
+            noteDate: this.getNoteDate(sourcePath),
+        };
+    }
+
+    // A note's date comes from its 'date' property, falling back to a YYYY-MM-DD date in its file name (as daily notes use)
+    getNoteDate(sourcePath: string): Date | null {
+        const file = this.app.vault.getAbstractFileByPath(sourcePath);
+        if (!(file instanceof TFile)) return null;
+
+        const frontmatterDate: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.date;
+        const candidates = [typeof frontmatterDate === 'string' ? frontmatterDate : '', file.basename];
+        for (const candidate of candidates) {
+            const match = /\d{4}-\d{2}-\d{2}/.exec(candidate);
+            if (match && isISODate(match[0])) return parseISODate(match[0]);
+        }
+        return null;
+    }
+
+    // Serves report entries from the time entry cache, fetching only days that aren't cached or may have changed.
+    // Offline, falls back on the cache if it covers the whole range; otherwise throws a HarvestApiError.
+    async getTimeEntries(query: HarvestQuery, onProgress?: PageProgressCallback, refetch: boolean = false): Promise<TimeEntriesResult> {
+        const profile = query.account === null ? this.activeProfile : findProfile(this.settings.profiles, query.account);
+        if (!profile) {
+            throw new HarvestApiError(HarvestErrorKind.INVALID, `There is no Harvest account profile named "${query.account}".`);
+        }
+        if (query.user.scope !== UserScope.ME || profile !== this.activeProfile) return this.getUncachedTimeEntries(query, profile, onProgress);
+        if (!this.userId) {
+            new Notice('User ID not found. Cannot fetch your time entries.');
+            return { entries: [], cachedAt: null };
+        }
+
+        const cache = await this.getTimeEntryCache();
+        let cachedAt: number | null = null;
+        try {
+            await this.syncTimeEntryCache(cache, query.from, query.to, onProgress, refetch);
+        } catch (error) {
+            const offline = error instanceof HarvestApiError && error.kind === HarvestErrorKind.OFFLINE;
+            if (!offline || cache.data.syncedAt === null || daysBetween(query.from, query.to).some(day => !cache.data.days[day])) {
+                throw error;
+            }
+            cachedAt = cache.data.syncedAt;
+        }
+
+        const entries = cache.entriesBetween(query.from, query.to);
+        return { entries: entries.filter(entry => query.filters.every(filter => matchesFilter(entry, filter))), cachedAt };
+    }
+
+    // Fetches team reports and reports on another profile's account straight from Harvest, since the cache only holds
+    // the active account's own entries. Throws a permission error rather than returning just the user's entries when
+    // their role can't see anyone else's.
+    private async getUncachedTimeEntries(query: HarvestQuery, profile: HarvestProfile, onProgress?: PageProgressCallback): Promise<TimeEntriesResult> {
+        const session = this.sessionFor(profile);
+        if (!session.userId) {
+            const me = await this.send<HarvestCurrentUser>('/users/me', 'GET', null, profile);
+            session.userId = me.id;
+            session.accessRoles = me.access_roles ?? [];
+        }
+        if (query.user.scope !== UserScope.ME && session.accessRoles.length > 0 && !session.accessRoles.some(role => TEAM_REPORT_ROLES.includes(role))) {
+            throw new HarvestApiError(HarvestErrorKind.AUTH, TEAM_REPORT_PERMISSION_MESSAGE);
+        }
+
+        const { params, remaining } = this.resolveServerSideFilters(query.filters, session.projectCache);
+        const userId = query.user.scope === UserScope.ME ? session.userId
+            : query.user.scope === UserScope.NAMED ? await this.resolveUserId(query.user.name ?? '', profile) : null;
+        let entries: HarvestTimeEntry[];
+        try {
+            const userFilter = userId !== null ? `&user_id=${userId}` : '';
+            entries = await this.sendAllPages<HarvestTimeEntriesResponse, HarvestTimeEntry>(
+                `/time_entries?from=${query.from}&to=${query.to}${userFilter}${params.map(param => `&${param}`).join('')}`,
+                data => data.time_entries, onProgress, profile);
+        } catch (error) {
+            if (error instanceof HarvestApiError && error.status === 403) {
+                throw new HarvestApiError(HarvestErrorKind.AUTH, TEAM_REPORT_PERMISSION_MESSAGE, 403);
+            }
+            throw error;
+        }
+
+        // Harvest lists the newest first, where the cache gives reports oldest first
+        const matching = entries
+            .filter(entry => matchesUser(entry, query.user) && remaining.every(filter => matchesFilter(entry, filter)))
+            .sort((a, b) => a.spent_date.localeCompare(b.spent_date));
+        return { entries: matching, cachedAt: null };
+    }
+
+    // The Harvest user ID a USER clause names. Throws when no one in the account has that name, and returns null when
+    // it can't tell (several people share it, or the role can't list users), leaving the name to be matched client-side.
+    private async resolveUserId(name: string, profile: HarvestProfile): Promise<number | null> {
+        if (/^\d+$/.test(name)) return parseInt(name);
+
+        const session = this.sessionFor(profile);
+        const needle = name.toLowerCase();
+        const named = (users: HarvestCurrentUser[]) => users.filter(user => `${user.first_name} ${user.last_name}`.toLowerCase() === needle);
+        let matches = named(session.users ?? []);
+        if (matches.length === 0) {
+            // Someone added since the list was loaded
+            try {
+                session.users = await this.sendAllPages<HarvestUsersResponse, HarvestCurrentUser>('/users', data => data.users, undefined, profile);
+            } catch (error) {
+                if (error instanceof HarvestApiError && error.status === 403) return null;
+                throw error;
+            }
+            matches = named(session.users);
+        }
+
+        if (matches.length === 0) {
+            throw new HarvestApiError(HarvestErrorKind.INVALID, `There is no Harvest user named "${name}".`);
+        }
+        return matches.length === 1 ? matches[0].id : null;
+    }
+
+    // Converts filters Harvest can apply itself (project_id, client_id, task_id) into query parameters.
+    // Anything that can't be resolved to a single ID is left to be applied client-side. The cache fetches whole
+    // days so it can serve any query, so this is only for fetches that bypass it.
+    resolveServerSideFilters(filters: QueryFilter[], projects: HarvestProjectFull[] = this.projectCache): { params: string[], remaining: QueryFilter[] } {
+        const params: string[] = [];
+        const remaining: QueryFilter[] = [];
+        const usedParams = new Set<string>();
+
+        for (const filter of filters) {
+            const param = filter.operator === FilterOperator.EQUALS ? this.filterParamName(filter.field) : null;
+            const id = param && !usedParams.has(param) ? this.resolveFilterId(filter, projects) : null;
+            if (param && id !== null) {
+                params.push(`${param}=${id}`);
+                usedParams.add(param);
+            } else {
+                remaining.push(filter);
+            }
+        }
+
+        return { params, remaining };
+    }
+
+    private filterParamName(field: FilterField): string | null {
+        switch (field) {
+            case FilterField.PROJECT: return 'project_id';
+            case FilterField.CLIENT: return 'client_id';
+            case FilterField.TASK: return 'task_id';
+            default: return null;
+        }
+    }
+
+    // Names and codes come first, as codes are often numbers too. A number nothing is named is taken as an ID.
+    private resolveFilterId(filter: QueryFilter, projects: HarvestProjectFull[]): number | null {
+        const value = String(filter.value);
+        const needle = value.toLowerCase();
+        const ids = new Set<number>();
+        for (const project of projects) {
+            if (filter.field === FilterField.PROJECT) {
+                if (project.name.toLowerCase() === needle || (!!project.code && project.code.toLowerCase() === needle)) ids.add(project.id);
+            } else if (filter.field === FilterField.CLIENT) {
+                if (project.client?.name.toLowerCase() === needle) ids.add(project.client.id);
+            } else if (filter.field === FilterField.TASK) {
+                project.task_assignments?.forEach(assignment => {
+                    if (assignment.task.name.toLowerCase() === needle) ids.add(assignment.task.id);
+                });
+            }
+        }
+
+        if (ids.size === 0 && /^\d+$/.test(value)) return parseInt(value);
+        // Ambiguous names (e.g. the same project name under two clients) are matched client-side
+        return ids.size === 1 ? ids.values().next().value as number : null;
+    }
+
+    // The active account's cache, so switching accounts and back doesn't fetch everything again
+    async getTimeEntryCache(): Promise<TimeEntryCache> {
+        if (!this.timeEntryCaches) {
+            const path = `${this.manifest.dir}/${TIME_ENTRY_CACHE_FILE}`;
+            let data: TimeEntryCacheData[] = [];
+            if (await this.app.vault.adapter.exists(path)) {
+                try {
+                    const file = JSON.parse(await this.app.vault.adapter.read(path)) as TimeEntryCacheFile;
+                    data = Array.isArray(file) ? file : [file];
+                } catch (error) {
+                    console.error('Harvest: could not read the time entry cache.', error);
+                }
+            }
+            // Another report may have loaded them while this one was reading
+            this.timeEntryCaches ??= new Map(data.map(cache => [cache.userId, new TimeEntryCache(cache)]));
+        }
+
+        let cache = this.timeEntryCaches.get(this.userId);
+        if (!cache) {
+            cache = TimeEntryCache.empty(this.userId);
+            this.timeEntryCaches.set(this.userId, cache);
+        }
+        return cache;
+    }
+
+    async saveTimeEntryCache() {
+        if (!this.timeEntryCaches) return;
+        const file: TimeEntryCacheFile = [...this.timeEntryCaches.values()].map(cache => cache.data);
+        await this.app.vault.adapter.write(`${this.manifest.dir}/${TIME_ENTRY_CACHE_FILE}`, JSON.stringify(file));
+    }
+
+    // Pulls entries changed in Harvest since the last sync, then fetches the days in the range that are stale,
+    // or all of them when refetching
+    private async syncTimeEntryCache(cache: TimeEntryCache, from: ISODate, to: ISODate, onProgress?: PageProgressCallback, refetch: boolean = false) {
+        const startedAt = Date.now();
+        let changed = false;
+
+        const syncedAt = cache.data.syncedAt;
+        if (syncedAt !== null && startedAt - cache.updatesPulledAt > CACHE_FRESH_MS) {
+            const since = new Date(syncedAt - CACHE_CLOCK_SKEW_MS).toISOString();
+            const updated = await this.sendAllPages<HarvestTimeEntriesResponse, HarvestTimeEntry>(
+                `/time_entries?user_id=${this.userId}&updated_since=${encodeURIComponent(since)}`, data => data.time_entries);
+            cache.applyUpdates(updated);
+            cache.data.syncedAt = startedAt;
+            cache.updatesPulledAt = startedAt;
+            changed = true;
+        }
+
+        // Fetch the stale days in one request, from the first to the last
+        const stale = refetch ? daysBetween(from, to) : cache.staleDays(from, to, startedAt);
+        if (stale.length > 0) {
+            const staleFrom = stale[0];
+            const staleTo = stale[stale.length - 1];
+            const entries = await this.sendAllPages<HarvestTimeEntriesResponse, HarvestTimeEntry>(
+                `/time_entries?from=${staleFrom}&to=${staleTo}&user_id=${this.userId}`, data => data.time_entries, onProgress);
+            cache.storeRange(staleFrom, staleTo, entries, startedAt);
+            if (cache.data.syncedAt === null) {
+                cache.data.syncedAt = startedAt;
+                cache.updatesPulledAt = startedAt;
+            }
+            changed = true;
+        }
+
+        if (changed) await this.saveTimeEntryCache();
+    }
+
+    async fetchAllTrackableProjects(forceRefresh: boolean = false): Promise<HarvestProjectFull[]> {
+        // Return from cache unless refresh is forced
+        if (this.projectCache.length > 0 && !forceRefresh) {
+            return this.projectCache;
+        }
+
+        // Get both managed projects and project in time entries. For projects where a user is not a manager,
+        // the only way to get a list of projects assigned to that user is through the time entries
+        // Use silent mode for background startup calls (non-forced refresh)
+        const silent = !forceRefresh;
+        const managedProjects = await this.getManagedProjects(silent);
+        const recentProjects = await this.getRecentProjectsFromTimeEntries(silent);
+        const combinedProjectMap = new Map<number, HarvestProjectFull>();
+        managedProjects.forEach(proj => combinedProjectMap.set(proj.id, proj));
+        recentProjects.forEach(proj => {
+            if (!combinedProjectMap.has(proj.id)) {
+                combinedProjectMap.set(proj.id, proj);
+            }
+        });
+        const sortedProjects = Array.from(combinedProjectMap.values()).sort((a, b) => a.name.localeCompare(b.name));
+        this.projectCache = sortedProjects;
+        return this.projectCache;
+    }
+
+    async getManagedProjects(silent: boolean = false): Promise<HarvestProjectFull[]> {
+        const projects = await this.requestAllPages<HarvestProjectsResponse, HarvestProjectFull>('/projects?is_active=true', data => data.projects, silent);
+        return projects ?? [];
+    }
+
+    async getTaskAssignments(project: HarvestProjectFull, silent: boolean = false): Promise<HarvestTaskAssignment[] | null> {
+        if (project.task_assignments) return project.task_assignments;
+
+        const cached = this.taskAssignmentCache.get(project.id);
+        if (cached) return cached;
+
+        const assignments = await this.requestAllPages<HarvestTaskAssignmentsResponse, HarvestTaskAssignment>(
+            `/projects/${project.id}/task_assignments`, data => data.task_assignments, silent);
+        if (assignments) {
+            this.taskAssignmentCache.set(project.id, assignments);
+        }
+        return assignments;
+    }
+
+    async getRecentProjectsFromTimeEntries(silent: boolean = false): Promise<HarvestProjectFull[]> {
+        if (!this.userId) return [];
+        const thirtyDaysAgo = new Date();
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+        const fromDate = thirtyDaysAgo.toISOString().split('T')[0];
+        const entries = await this.requestAllPages<HarvestTimeEntriesResponse, HarvestTimeEntry>(
+            `/time_entries?from=${fromDate}&user_id=${this.userId}`, data => data.time_entries, silent);
+        if (!entries) return [];
+        const recentProjectsMap = new Map<number, HarvestProjectFull>();
+        entries.forEach((entry: HarvestTimeEntry) => {
+            if (entry.project && !recentProjectsMap.has(entry.project.id)) {
+                // Convert the simplified project from time entry to HarvestProjectFull
+                recentProjectsMap.set(entry.project.id, entry.project as unknown as HarvestProjectFull);
+            }
+        });
+        return Array.from(recentProjectsMap.values());
+    }
+    
+    // Reads harvest-project and harvest-task from the note, then from the folder notes above it
+    // (a note named after its folder, e.g. Clients/Acme/Acme.md). The closest declaration of each wins.
+    getNoteMapping(file: TFile): NoteProjectMapping {
+        const mapping: NoteProjectMapping = { project: null, task: null };
+        const sources: TFile[] = [file];
+        for (let folder = file.parent; folder && !folder.isRoot(); folder = folder.parent) {
+            const folderNote = this.app.vault.getFileByPath(`${folder.path}/${folder.name}.md`);
+            if (folderNote && folderNote !== file) sources.push(folderNote);
+        }
+
+        for (const source of sources) {
+            const frontmatter = this.app.metadataCache.getFileCache(source)?.frontmatter;
+            if (!frontmatter) continue;
+            mapping.project ??= frontmatterReference(frontmatter[FRONTMATTER_PROJECT_KEY]);
+            mapping.task ??= frontmatterReference(frontmatter[FRONTMATTER_TASK_KEY]);
+            if (mapping.project && mapping.task) break;
+        }
+        return mapping;
+    }
+
+    // Starts a timer from the note's frontmatter mapping without any modals, falling back to the
+    // project or task picker for whatever is missing or ambiguous
+    async startTimerForNote(file: TFile) {
+        const mapping = this.getNoteMapping(file);
+        if (!mapping.project) {
+            new Notice(`No ${FRONTMATTER_PROJECT_KEY} set for this note or its folders.`);
+            new ProjectSuggestModal(this.app, this, file).open();
+            return;
+        }
+        await this.startTimerFromReferences(mapping.project, mapping.task, file);
+    }
+
+    // Starts a timer from a task line's marker, with the rest of the line as the entry notes
+    async startTimerFromLine(line: string, file: TFile | null) {
+        const marker = parseTaskLine(line);
+        if (!marker) {
+            new Notice('This line has no #harvest/project/task tag or [harvest:: project/task] field.');
+            return;
+        }
+        await this.startTimerFromReferences(marker.project, marker.task, file, marker.notes, true);
+    }
+
+    // Short forms (`dev` for Development) are only accepted from task line markers, where they're typed inline;
+    // frontmatter mappings have to name their project and task exactly
+    private async startTimerFromReferences(projectReference: string, taskReference: string | null, file: TFile | null, notes: string = '', allowShortForms: boolean = false) {
+        const start: TaskChoiceCallback = (project, taskAssignment) => {
+            void this.startTimer(project.id, taskAssignment.task.id, file, notes);
+        };
+
+        const projects = await this.fetchAllTrackableProjects();
+        const projectMatches = findReferenced<HarvestProjectFull>(projects, projectReference, matchesProjectReference,
+            allowShortForms ? startsProjectReference : null);
+        if (projectMatches.length !== 1) {
+            new Notice(projectMatches.length === 0
+                ? `No project found matching "${projectReference}".`
+                : `"${projectReference}" matches more than one project.`);
+            new ProjectSuggestModal(this.app, this, file, start).open();
+            return;
+        }
+
+        const project = projectMatches[0];
+        const tasks = await this.getTaskAssignments(project);
+        if (!tasks || tasks.length === 0) {
+            new Notice('No tasks found for this project.');
+            return;
+        }
+
+        const taskMatches = taskReference
+            ? findReferenced(tasks, taskReference, (assignment, reference) => matchesTaskReference(assignment.task, reference),
+                allowShortForms ? (assignment, reference) => startsTaskReference(assignment.task, reference) : null)
+            : [];
+        if (taskMatches.length !== 1) {
+            if (taskReference) {
+                new Notice(taskMatches.length === 0
+                    ? `No task found matching "${taskReference}" in ${project.name}.`
+                    : `"${taskReference}" matches more than one task in ${project.name}.`);
+            }
+            new TaskSuggestModal(this.app, this, project, tasks, file, start).open();
+            return;
+        }
+
+        await this.startTimer(project.id, taskMatches[0].task.id, file, notes);
+    }
+
+    // Starts a timer, restarting today's entry for the same project and task if there is one. With notes, only an
+    // entry whose notes start with them is restarted, so each task line keeps its own entry.
+    async startTimer(projectId: number, taskId: number, activeFile: TFile | null, notes: string = '') {
+        // Save the selected project/task to the cache for the current folder to use as future default
+        if (activeFile && activeFile.parent) {
+            const folderPath = activeFile.parent.path;
+            this.settings.folderProjectCache[folderPath] = { projectId, taskId };
+            await this.saveSettings();
+        }
+
+        const spentDate = formatDate(new Date());
+        const linkedFile = this.settings.noteLinkMode !== 'none' ? activeFile : null;
+        const linkFields = linkedFile ? this.noteLinkFields(linkedFile) : {};
+        if (notes) {
+            linkFields.notes = typeof linkFields.notes === 'string' ? `${notes}\n${linkFields.notes}` : notes;
+        }
+
+        if (this.isOffline) {
+            await this.queueOfflineStart(projectId, taskId, spentDate, linkFields);
+            return;
+        }
+
+        // Check for existing entry today for this project/task to restart it. When linking notes, only an entry
+        // linked to the same note counts, so each note keeps its own entry.
+        if (this.userId) {
+            const entries = await this.getDayEntries(spentDate);
+            if (entries) {
+                const existingEntry = entries.find(
+                    (entry: HarvestTimeEntry) => entry.project.id === projectId && entry.task.id === taskId
+                        && (!linkedFile || entryLinksToNote(entry, linkedFile.path))
+                        && (entry.notes ?? '').startsWith(notes)
+                );
+                
+                if (existingEntry) {
+                    await this.restartTimer(existingEntry.id);
+                    return;
+                }
+            }
+        }
+
+        // No existing entry found, create a new one
+        const body = {
+            project_id: projectId,
+            task_id: taskId,
+            spent_date: spentDate,
+            ...linkFields,
+        };
+        const result = await this.request('/time_entries', 'POST', body);
+        if (result) {
+            new Notice('Timer started!');
+            void this.updateRunningTimer();
+        } else if (this.isOffline) {
+            await this.queueOfflineStart(projectId, taskId, spentDate, linkFields);
+        }
+    }
+
+    // Time entry fields linking a new entry back to `file`, according to the note link setting
+    noteLinkFields(file: TFile): Record<string, unknown> {
+        const vaultName = this.app.vault.getName();
+        const uri = noteUri(vaultName, file.path);
+        if (this.settings.noteLinkMode === 'external-reference') {
+            return { external_reference: { id: file.path, group_id: vaultName, permalink: uri } };
+        }
+        if (this.settings.noteLinkMode === 'notes') {
+            return { notes: `${file.basename} ${uri}` };
+        }
+        return {};
+    }
+
+    async getCompany(silent: boolean = false): Promise<HarvestCompany | null> {
+        if (!this.company) {
+            this.company = await this.request<HarvestCompany>('/company', 'GET', null, silent);
+        }
+        return this.company;
+    }
+
+    logTimeWithPickers() {
+        new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile(), (project, taskAssignment) => {
+            void this.openLogTimeModal(project, taskAssignment);
+        }).open();
+    }
+
+    async openLogTimeModal(project: HarvestProjectFull, taskAssignment: HarvestTaskAssignment) {
+        const company = await this.getCompany();
+        if (!company) return;
+        new LogTimeModal(this.app, this, project, taskAssignment, company.wants_timestamp_timers).open();
+    }
+
+    // Creates a completed time entry, or queues it if offline. Returns whether it was created or queued.
+    async logTime(entry: ManualTimeEntry): Promise<boolean> {
+        if (this.isOffline) {
+            await this.queueOfflineAction({ type: 'log', at: Date.now(), entry });
+            return true;
+        }
+
+        const result = await this.createTimeEntry(entry);
+        if (!result) {
+            if (!this.isOffline) return false;
+            await this.queueOfflineAction({ type: 'log', at: Date.now(), entry });
+            return true;
+        }
+
+        new Notice(`Logged ${formatHoursMinutes(result.hours)} on ${result.spent_date}.`);
+        this.refreshTimesheetViews();
+        return true;
+    }
+
+    async createTimeEntry(entry: ManualTimeEntry): Promise<HarvestTimeEntry | null> {
+        return this.request<HarvestTimeEntry>('/time_entries', 'POST', manualEntryBody(entry));
+    }
+
+    async importTimeLogs(file: TFile) {
+        const logs = parseTimeLogs(await this.app.vault.read(file));
+        if (logs.length === 0) {
+            new Notice('No time logs found in this note.');
+            return;
+        }
+
+        const company = await this.getCompany();
+        if (!company) return;
+        const date = formatDate(this.getNoteDate(file.path) ?? new Date());
+        const imports = await this.resolveTimeLogs(logs, date, company.wants_timestamp_timers);
+        if (imports) {
+            new ImportTimeLogsModal(this.app, this, imports).open();
+        }
+    }
+
+    // Matches logs to projects and tasks, and flags logs that can't be created or look like entries already in Harvest.
+    // Logs without a date of their own are for `date`.
+    async resolveTimeLogs(logs: NoteTimeLog[], date: ISODate, useTimestamps: boolean): Promise<TimeLogImport[] | null> {
+        const projects = await this.fetchAllTrackableProjects();
+        const dates = logs.map(log => log.date ?? date).sort();
+        // Offline, duplicates can't be looked for, but the entries can still be queued
+        const existing = await this.getEntriesBetween(dates[0], dates[dates.length - 1]) ?? (this.isOffline ? [] : null);
+        if (!existing) return null;
+
+        const imports: TimeLogImport[] = [];
+        for (const log of logs) {
+            const spentDate = log.date ?? date;
+            const resolved: TimeLogImport = { log, title: `${log.project} / ${log.task}`, entry: null, problem: null, duplicate: false };
+            imports.push(resolved);
+
+            const projectMatches = findReferenced<HarvestProjectFull>(projects, log.project, matchesProjectReference, startsProjectReference);
+            if (projectMatches.length !== 1) {
+                resolved.problem = projectMatches.length === 0
+                    ? `No project found matching "${log.project}".`
+                    : `"${log.project}" matches more than one project.`;
+                continue;
+            }
+            const project = projectMatches[0];
+            const taskMatches = findReferenced(await this.getTaskAssignments(project) ?? [], log.task,
+                (assignment, reference) => matchesTaskReference(assignment.task, reference),
+                (assignment, reference) => startsTaskReference(assignment.task, reference));
+            if (taskMatches.length !== 1) {
+                resolved.problem = taskMatches.length === 0
+                    ? `No task found matching "${log.task}" in ${project.name}.`
+                    : `"${log.task}" matches more than one task in ${project.name}.`;
+                continue;
+            }
+            const task = taskMatches[0].task;
+            resolved.title = `${project.name} › ${task.name}`;
+
+            if (log.hours <= 0) {
+                resolved.problem = log.start === null ? 'The duration is zero.' : 'The end time isn\'t after the start time.';
+                continue;
+            }
+            // Accounts tracking start and end times reject entries created from a bare duration
+            if (useTimestamps && log.start === null) {
+                resolved.problem = 'Your Harvest account tracks start and end times, so this needs them rather than a duration.';
+                continue;
+            }
+
+            const entry: ManualTimeEntry = { projectId: project.id, taskId: task.id, spentDate, notes: log.notes };
+            if (useTimestamps && log.start !== null && log.end !== null) {
+                entry.startedTime = formatTimeOfDay(log.start);
+                entry.endedTime = formatTimeOfDay(log.end);
+            } else {
+                entry.hours = Math.round(log.hours * 100) / 100;
+            }
+            resolved.entry = entry;
+            resolved.duplicate = existing.some(other => other.spent_date === spentDate && other.project.id === project.id
+                && other.task.id === task.id && Math.abs(other.hours - log.hours) < 1 / 60);
+        }
+        return imports;
+    }
+
+    // Creates the entries in order, stopping at the first failure, or queues them if offline. Returns how many were
+    // created or queued.
+    async importTimeEntries(entries: ManualTimeEntry[]): Promise<number> {
+        let imported = 0;
+        for (const entry of entries) {
+            const created = !this.isOffline && await this.createTimeEntry(entry);
+            if (!created) {
+                if (!this.isOffline) break;
+                await this.queueOfflineAction({ type: 'log', at: Date.now(), entry }, true);
+            }
+            imported++;
+        }
+
+        const queued = this.isOffline ? ' They will be sent to Harvest when the connection returns.' : '';
+        new Notice(`Imported ${imported} of ${entries.length} time ${entries.length === 1 ? 'entry' : 'entries'}.${queued}`);
+        this.refreshTimesheetViews();
+        return imported;
+    }
+
+    async getDayEntries(date: ISODate, silent: boolean = false): Promise<HarvestTimeEntry[] | null> {
+        return this.getEntriesBetween(date, date, silent);
+    }
+
+    async getEntriesBetween(from: ISODate, to: ISODate, silent: boolean = false): Promise<HarvestTimeEntry[] | null> {
+        if (!this.userId) return null;
+        return this.requestAllPages<HarvestTimeEntriesResponse, HarvestTimeEntry>(
+            `/time_entries?from=${from}&to=${to}&user_id=${this.userId}`, data => data.time_entries, silent);
+    }
+
+    async restartTimer(timerId: number) {
+        const result = await this.request(`/time_entries/${timerId}/restart`, 'PATCH');
+        if (result) {
+            new Notice('Timer restarted!');
+            void this.updateRunningTimer();
+        }
+    }
+
+    async updateTimeEntry(entryId: number, fields: Record<string, unknown>): Promise<HarvestTimeEntry | null> {
+        const entry = await this.request<HarvestTimeEntry>(`/time_entries/${entryId}`, 'PATCH', fields);
+        if (entry) {
+            this.refreshTimesheetViews();
+        }
+        return entry;
+    }
+
+    // Makes a timesheet grid cell add up to the given hours: an empty cell gets a new entry, otherwise the
+    // difference is taken up by the day's last entry. Clearing a cell deletes its only entry unless it has notes.
+    // Returns whether anything changed.
+    async setTimesheetHours(row: TimesheetRow, date: ISODate, hours: number): Promise<boolean> {
+        const entries = row.days.get(date) ?? [];
+        const current = timesheetCellHours(row, date);
+        if (Math.abs(hours - current) < 1 / 120) return false;
+
+        if (entries.length === 0) {
+            return this.logTime({ projectId: row.project.id, taskId: row.task.id, spentDate: date, hours, notes: '' });
+        }
+
+        const last = entries[entries.length - 1];
+        const remaining = Math.round((last.hours + hours - current) * 10000) / 10000;
+        if (remaining < 0) {
+            new Notice(`${row.task.name} has ${entries.length} entries on ${date}. Reduce them in the timesheet instead.`);
+            return false;
+        }
+        if (remaining === 0 && entries.length === 1 && !last.notes) {
+            return this.deleteTimeEntry(last.id);
+        }
+        return (await this.updateTimeEntry(last.id, { hours: remaining })) !== null;
+    }
+
+    async deleteTimeEntry(entryId: number): Promise<boolean> {
+        try {
+            await this.send(`/time_entries/${entryId}`, 'DELETE');
+        } catch (e) {
+            if (!(e instanceof HarvestApiError)) throw e;
+            new Notice(e.kind === HarvestErrorKind.OFFLINE ? e.message : `Harvest API error: ${e.message}`);
+            return false;
+        }
+        this.refreshTimesheetViews();
+        return true;
+    }
+
+    // Fetches the budgets of the projects the user is assigned to. Spend comes from Harvest's project budget
+    // report when the user can see it, and is otherwise added up from the project's time entries.
+    async getProjectBudgets(query: HarvestQuery): Promise<ProjectBudget[]> {
+        const assignments = (await this.sendAllPages<HarvestProjectAssignmentsResponse, HarvestProjectAssignment>(
+            '/users/me/project_assignments?is_active=true', data => data.project_assignments))
+            .filter(assignment => query.filters.every(filter => matchesBudgetFilter(assignment, filter)));
+
+        // Budget settings and notification thresholds are only listed for projects the user manages
+        const projects = new Map((await this.getManagedProjects(true)).map(project => [project.id, project]));
+
+        let report: Map<number, HarvestProjectBudgetReport> | null = null;
+        try {
+            const results = await this.sendAllPages<HarvestProjectBudgetReportResponse, HarvestProjectBudgetReport>(
+                '/reports/project_budget?is_active=true', data => data.results);
+            report = new Map(results.map(result => [result.project_id, result]));
+        } catch (e) {
+            if (!(e instanceof HarvestApiError) || (e.kind !== HarvestErrorKind.AUTH && e.kind !== HarvestErrorKind.NOT_FOUND)) throw e;
+        }
+
+        const budgets: ProjectBudget[] = [];
+        // Projects missing from the report, whose spend is added up from their time entries afterwards
+        const unreported: ProjectBudget[] = [];
+        for (const assignment of assignments) {
+            const project = projects.get(assignment.project.id);
+            const result = report?.get(assignment.project.id);
+            const budgetBy = result?.budget_by ?? project?.budget_by ?? 'none';
+            const amount = result ? result.budget : project?.budget ?? null;
+            if (budgetBy === 'none' || amount === null) continue;
+
+            const isMonthly = result?.budget_is_monthly ?? project?.budget_is_monthly ?? false;
+            const isMoney = MONEY_BUDGETS.includes(budgetBy);
+            const budget: ProjectBudget = {
+                project: assignment.project,
+                client: assignment.client,
+                isMonthly,
+                isMoney,
+                budget: amount,
+                spent: result ? result.budget_spent : 0,
+                notifyPercentage: project?.notify_when_over_budget ? project.over_budget_notification_percentage : null,
+            };
+            budgets.push(budget);
+            if (!result) unreported.push(budget);
+        }
+
+        // In batches of at most `maxConcurrentRequests` projects, like the pages in sendAllPages
+        const concurrency = this.settings.maxConcurrentRequests > 0 ? this.settings.maxConcurrentRequests : 1;
+        for (let batchStart = 0; batchStart < unreported.length; batchStart += concurrency) {
+            await Promise.all(unreported.slice(batchStart, batchStart + concurrency).map(async budget => {
+                budget.spent = await this.sumProjectSpend(budget.project.id, budget.isMonthly, budget.isMoney);
+            }));
+        }
+        return budgets.sort((a, b) => a.project.name.localeCompare(b.project.name));
+    }
+
+    // Adds up a project's hours or billable amounts from its time entries, for this month only if budgeted monthly
+    private async sumProjectSpend(projectId: number, isMonthly: boolean, isMoney: boolean): Promise<number> {
+        const today = new Date();
+        const from = isMonthly ? `&from=${formatDate(new Date(today.getFullYear(), today.getMonth(), 1))}` : '';
+        const entries = await this.sendAllPages<HarvestTimeEntriesResponse, HarvestTimeEntry>(
+            `/time_entries?project_id=${projectId}${from}`, data => data.time_entries);
+        return entries.reduce((sum, entry) => sum + (isMoney ? entryAmount(entry) : entry.hours), 0);
+    }
+
+    freezeBudgetMarkdown(budgets: ProjectBudget[], query: HarvestQuery, source: string, keepQuery: boolean = this.settings.freezeKeepQuery): string {
+        const markdown = serializeBudgetToMarkdown(budgets, query, { style: this.settings.freezeStyle, columns: null });
+        return keepQuery ? wrapSnapshot(markdown, source, query) : markdown;
+    }
+
+    // Freezes a report using the freeze settings. Throws if the configured columns are invalid.
+    freezeMarkdown(entries: HarvestTimeEntry[], query: HarvestQuery, source: string, keepQuery: boolean = this.settings.freezeKeepQuery): string {
+        const options: FreezeOptions = {
+            style: this.settings.freezeStyle,
+            columns: parseExportColumns(this.settings.freezeColumns || DEFAULT_FREEZE_COLUMNS),
+        };
+        let markdown: string;
+        if (query.type === QueryType.LIST) {
+            markdown = serializeListToMarkdown(entries, query, options);
+        } else if (query.type === QueryType.TIMESHEET) {
+            markdown = serializeTimesheetToMarkdown(entries, query, options);
+        } else {
+            markdown = serializeSummaryToMarkdown(entries, query, options);
+        }
+        return keepQuery ? wrapSnapshot(markdown, source, query) : markdown;
+    }
+
+    // Records a frozen report's period and totals as note properties, if turned on
+    async saveFrozenTotals(file: TFile, entries: HarvestTimeEntry[], query: HarvestQuery) {
+        // Budgets have no period or hours of their own to record
+        if (!this.settings.freezeProperties || query.type === QueryType.BUDGET) return;
+        const totals = totalEntries(entries);
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            frontmatter['harvest-from'] = query.from;
+            frontmatter['harvest-to'] = query.to;
+            frontmatter['harvest-hours'] = Math.round(totals.hours * 100) / 100;
+            frontmatter['harvest-billable-hours'] = Math.round(totals.billableHours * 100) / 100;
+        });
+    }
+
+    // Regenerates every snapshot in the note from its kept query, for the period it was first frozen for. Entries are
+    // fetched afresh rather than from the cache, so edits made since in Harvest are picked up. Refreshed snapshots keep
+    // their query whatever the "keep query" setting, so they can be refreshed again.
+    async refreshSnapshots(file: TFile) {
+        const snapshots = findSnapshots(await this.app.vault.read(file));
+        if (snapshots.length === 0) {
+            new Notice('This note has no frozen snapshots with a kept query.');
+            return;
+        }
+
+        new Notice(`Refreshing ${snapshots.length} frozen ${snapshots.length === 1 ? 'snapshot' : 'snapshots'}...`);
+        const refreshed: { snapshot: FrozenSnapshot, markdown: string, entries: HarvestTimeEntry[], query: HarvestQuery }[] = [];
+        try {
+            for (const snapshot of snapshots) {
+                const parsed = parseQuery(snapshot.source, this.queryContext(file.path));
+                // Budgets are always refreshed as they stand today
+                if (parsed.type === QueryType.BUDGET) {
+                    const budgets = await this.getProjectBudgets(parsed);
+                    refreshed.push({ snapshot, markdown: this.freezeBudgetMarkdown(budgets, parsed, snapshot.source, true), entries: [], query: parsed });
+                    continue;
+                }
+                const query = { ...parsed, from: snapshot.from, to: snapshot.to };
+                const { entries } = await this.getTimeEntries(query, undefined, true);
+                refreshed.push({ snapshot, markdown: this.freezeMarkdown(entries, query, snapshot.source, true), entries, query });
+            }
+        } catch (e) {
+            new Notice(`Could not refresh frozen snapshots: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+
+        // The note may have been edited while fetching, so each snapshot is found again by its period and query.
+        // One that was removed or changed in the meantime is left alone.
+        await this.app.vault.process(file, content => {
+            const lines = content.split('\n');
+            const current = findSnapshots(content);
+            const replacements: { snapshot: FrozenSnapshot, markdown: string }[] = [];
+            for (const { snapshot, markdown } of refreshed) {
+                const index = current.findIndex(candidate => candidate.from === snapshot.from && candidate.to === snapshot.to
+                    && candidate.source.trim() === snapshot.source.trim());
+                if (index === -1) continue;
+                replacements.push({ snapshot: current[index], markdown });
+                current.splice(index, 1);
+            }
+            // Replace from the bottom up so earlier line numbers stay valid
+            replacements.sort((a, b) => b.snapshot.lineStart - a.snapshot.lineStart);
+            for (const { snapshot, markdown } of replacements) {
+                lines.splice(snapshot.lineStart, snapshot.lineEnd - snapshot.lineStart + 1, markdown);
+            }
+            return lines.join('\n');
+        });
+
+        // Properties only hold one report's totals, so the last snapshot in the note sets them
+        const last = refreshed[refreshed.length - 1];
+        await this.saveFrozenTotals(file, last.entries, last.query);
+        new Notice('Frozen snapshots have been refreshed.');
+    }
+
+    showExportMenu(evt: MouseEvent, entries: HarvestTimeEntry[], query: HarvestQuery) {
+        const menu = new Menu();
+        const formats: [ExportFormat, string][] = [['csv', 'CSV'], ['json', 'JSON'], ['markdown', 'markdown table']];
+        for (const [format, label] of formats) {
+            menu.addItem(item => item
+                .setTitle(`Export as ${label}...`)
+                .onClick(() => new ExportModal(this.app, this, format, { entries, query }).open()));
+        }
+        menu.showAtMouseEvent(evt);
+    }
+
+    // Writes an export to a vault file, creating missing folders and replacing any existing file
+    async writeExportFile(path: string, content: string) {
+        const normalized = normalizePath(path);
+        const folder = normalized.includes('/') ? normalized.slice(0, normalized.lastIndexOf('/')) : '';
+        if (folder && !this.app.vault.getFolderByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        const existing = this.app.vault.getFileByPath(normalized);
+        if (existing) {
+            await this.app.vault.modify(existing, content);
+        } else {
+            await this.app.vault.create(normalized, content);
+        }
+    }
+
+    async activateTimesheetView() {
+        let leaf = this.app.workspace.getLeavesOfType(TIMESHEET_VIEW_TYPE)[0];
+        if (!leaf) {
+            const rightLeaf = this.app.workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            await rightLeaf.setViewState({ type: TIMESHEET_VIEW_TYPE, active: true });
+            leaf = rightLeaf;
+        }
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    refreshTimesheetViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(TIMESHEET_VIEW_TYPE)) {
+            if (leaf.view instanceof TimesheetView) {
+                void leaf.view.refresh();
+            }
+        }
+    }
+
+    async updateRunningTimer() {
+        if (!this.userId) return;
+        await this.replayOfflineQueue();
+
+        const data = await this.request<HarvestTimeEntriesResponse>(`/time_entries?is_running=true&user_id=${this.userId}`, 'GET', null, true);
+
+        // Check if we're offline after the request
+        if (this.isOffline) {
+            this.renderStatusBar();
+            return;
+        }
+
+        this.runningTimer = data && data.time_entries && data.time_entries.length > 0 ? data.time_entries[0] : null;
+        this.timerSyncedAt = Date.now();
+        await this.updateOtherRunningTimers();
+        await this.updateTotals();
+        this.renderStatusBar();
+
+        // Every timer action ends with this update, as does each poll, so the timesheet follows along
+        this.refreshTimesheetViews();
+    }
+
+    // Timers left running in accounts switched away from stay in the status bar until they're stopped there
+    async updateOtherRunningTimers() {
+        for (const [profile, session] of this.sessions) {
+            if (profile === this.activeProfile || !session.runningTimer || !session.userId) continue;
+            if (!this.settings.profiles.includes(profile)) {
+                session.runningTimer = null;
+                continue;
+            }
+            try {
+                const data = await this.send<HarvestTimeEntriesResponse>(`/time_entries?is_running=true&user_id=${session.userId}`, 'GET', null, profile);
+                session.runningTimer = data.time_entries[0] ?? null;
+                session.timerSyncedAt = Date.now();
+            } catch (error) {
+                // Keeps showing the last known timer until that account can be reached
+                if (!(error instanceof HarvestApiError)) throw error;
+            }
+        }
+    }
+
+    // Today's and this week's totals are only fetched when the status bar format shows them
+    async updateTotals() {
+        const format = this.settings.statusBarFormat;
+        if (!format.includes('{today_total}') && !format.includes('{week_total}')) return;
+
+        const today = new Date();
+        const entries = await this.getEntriesBetween(formatDate(startOfWeek(today, this.settings.weekStart)), formatDate(today), true);
+        if (!entries) return;
+        this.weekTotal = entries.reduce((sum, entry) => sum + entry.hours, 0);
+        this.todayTotal = entries.filter(entry => entry.spent_date === formatDate(today)).reduce((sum, entry) => sum + entry.hours, 0);
+    }
+
+    renderStatusBar() {
+        const queued = this.settings.offlineQueue.length;
+        const pending = queued > 0 ? ` (${queued} pending)` : '';
+        // With more than one profile, say which account the timer (or lack of one) is in. Without a timer in the
+        // active account, one still running in another account is shown instead.
+        const activeProfile = this.activeProfile;
+        const timerProfile = this.runningTimer ? activeProfile
+            : this.settings.profiles.find(profile => profile !== activeProfile && this.sessions.get(profile)?.runningTimer) ?? activeProfile;
+        const timerSession = this.sessionFor(timerProfile);
+        const account = timerProfile?.name ?? '';
+        const label = this.settings.profiles.length > 1 ? `Harvest (${account})` : 'Harvest';
+
+        if (this.isOffline) {
+            this.statusBarItemEl.setText(`${label}: no network connection${pending}`);
+            return;
+        }
+        if (!this.userId) {
+            this.statusBarItemEl.setText(label);
+            return;
+        }
+        if (!timerSession.runningTimer) {
+            this.statusBarItemEl.setText(`${label}: no timer running${pending}`);
+            return;
+        }
+
+        // Hours have moved on by however long it's been since the last poll, for the running entry and the totals alike.
+        // The totals are the active account's, so a timer in another account doesn't add to them.
+        const elapsedSinceSync = (Date.now() - timerSession.timerSyncedAt) / (60 * 60 * 1000);
+        const totalsElapsed = timerProfile === activeProfile ? elapsedSinceSync : 0;
+        const { project, task, client, notes, hours } = timerSession.runningTimer;
+        const values: Record<string, string> = {
+            project: project.name,
+            task: task.name,
+            client: client.name,
+            notes: (notes ?? '').split('\n')[0],
+            account,
+            elapsed: formatHoursMinutes(hours + elapsedSinceSync),
+            today_total: this.todayTotal !== null ? formatHoursMinutes(this.todayTotal + totalsElapsed) : '',
+            week_total: this.weekTotal !== null ? formatHoursMinutes(this.weekTotal + totalsElapsed) : '',
+        };
+        const format = this.settings.statusBarFormat || DEFAULT_STATUS_BAR_FORMAT;
+        const text = format.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+        this.statusBarItemEl.setText(`${label}: ${text}${pending}`);
+    }
+
+    showStatusBarMenu(evt: MouseEvent) {
+        const menu = new Menu();
+        const runningTimer = this.runningTimer;
+
+        if (runningTimer || this.hasQueuedRunningTimer()) {
+            menu.addItem(item => item
+                .setTitle('Stop timer')
+                .setIcon('square')
+                .onClick(() => void this.stopRunningTimer()));
+        }
+
+        if (runningTimer) {
+            menu.addItem(item => item
+                .setTitle('Switch task')
+                .setIcon('replace')
+                .onClick(() => new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile()).open()));
+            menu.addItem(item => item
+                .setTitle('Edit notes')
+                .setIcon('pencil')
+                .onClick(() => new EditNotesModal(this.app, this, runningTimer).open()));
+        } else {
+            menu.addItem(item => item
+                .setTitle('Start timer')
+                .setIcon('play')
+                .onClick(() => new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile()).open()));
+            menu.addItem(item => item
+                .setTitle('Log time')
+                .setIcon('plus')
+                .onClick(() => this.logTimeWithPickers()));
+        }
+
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle('Open timesheet')
+            .setIcon('clock')
+            .onClick(() => void this.activateTimesheetView()));
+        menu.addItem(item => item
+            .setTitle('Open in Harvest')
+            .setIcon('external-link')
+            .onClick(() => void this.openInHarvest()));
+        if (this.settings.profiles.length > 1) {
+            menu.addItem(item => item
+                .setTitle('Switch account')
+                .setIcon('users')
+                .onClick(() => this.switchProfileWithPicker()));
+        }
+
+        menu.showAtMouseEvent(evt);
+    }
+
+    async openInHarvest() {
+        const company = await this.getCompany();
+        if (company) {
+            window.open(`https://${company.full_domain}/time`);
+        }
+    }
+
+    async stopTimer(timerId: number) {
+        if (this.isOffline) {
+            await this.queueOfflineStop(timerId);
+            return;
+        }
+
+        const result = await this.request<HarvestTimeEntry>(`/time_entries/${timerId}/stop`, 'PATCH');
+        if (result) {
+            new Notice('Timer stopped.');
+            void this.updateRunningTimer();
+            if (this.settings.dailyNoteLog) void this.writeDailyNoteLog(parseISODate(result.spent_date));
+        } else if (this.isOffline) {
+            await this.queueOfflineStop(timerId);
+        }
+    }
+
+    // Stops whichever timer is running, including one started while offline that hasn't reached Harvest yet
+    async stopRunningTimer() {
+        if (this.runningTimer) {
+            await this.stopTimer(this.runningTimer.id);
+        } else if (this.hasQueuedRunningTimer()) {
+            await this.queueOfflineStop(null);
+        } else {
+            new Notice('No timer is currently running.');
+        }
+    }
+
+    // Offers to stop the running timer once the task line it was started from is ticked off
+    private offerStopForTickedTask(editor: Editor) {
+        const timer = this.runningTimer;
+        if (!timer || !timer.notes || this.offeredStopTimerId === timer.id) return;
+
+        for (let index = 0; index < editor.lineCount(); index++) {
+            const line = editor.getLine(index);
+            if (!line.toLowerCase().includes('harvest')) continue;
+            const marker = parseTaskLine(line);
+            if (!marker?.checked || !marker.notes || !timer.notes.startsWith(marker.notes)) continue;
+            if (!matchesProjectReference(timer.project, marker.project) && !startsProjectReference(timer.project, marker.project)) continue;
+
+            this.offeredStopTimerId = timer.id;
+            new StopTickedTaskModal(this.app, this, timer, marker.notes).open();
+            return;
+        }
+    }
+
+    private recordActivity() {
+        const now = Date.now();
+        const idleSince = this.lastActivityAt;
+        this.lastActivityAt = now;
+
+        const idleMinutes = this.settings.idleMinutes > 0 ? this.settings.idleMinutes : DEFAULT_SETTINGS.idleMinutes;
+        if (!this.settings.idleDetection || !this.runningTimer || now - idleSince < idleMinutes * 60 * 1000) return;
+        void this.promptIdleTime(idleSince);
+    }
+
+    // Asks what to do with the time a timer ran while the user was idle, if it's still running
+    private async promptIdleTime(idleSince: number) {
+        await this.updateRunningTimer();
+        const timer = this.runningTimer;
+        if (!timer) return;
+
+        // A timer started while away, e.g. from the phone, was only running for part of the idle time
+        const startedAt = timer.timer_started_at ? Date.parse(timer.timer_started_at) : idleSince;
+        new IdleTimeModal(this.app, this, timer, Math.max(idleSince, startedAt)).open();
+    }
+
+    // Stops a running timer as if it had been stopped at `at`, winding its time back from when Harvest stopped it
+    async stopTimerAt(timerId: number, at: number, useTimestamps: boolean): Promise<HarvestTimeEntry | null> {
+        const stopped = await this.request<HarvestTimeEntry>(`/time_entries/${timerId}/stop`, 'PATCH');
+        if (!stopped) return null;
+        return this.request<HarvestTimeEntry>(`/time_entries/${timerId}`, 'PATCH', stopCorrection(stopped, at, useTimestamps));
+    }
+
+    // Removes the time since `idleSince` from a running timer and keeps it running
+    async discardIdleTime(timer: HarvestTimeEntry, idleSince: number) {
+        const company = await this.getCompany();
+        if (!company) return;
+        const stopped = await this.stopTimerAt(timer.id, idleSince, company.wants_timestamp_timers);
+        if (stopped) {
+            if (await this.request(`/time_entries/${timer.id}/restart`, 'PATCH')) {
+                new Notice('Idle time discarded.');
+            } else {
+                new Notice(`Idle time discarded, but the timer for ${timer.project.name} could not be restarted and is now stopped.`);
+            }
+        }
+        void this.updateRunningTimer();
+    }
+
+    async stopTimerAtIdle(timer: HarvestTimeEntry, idleSince: number) {
+        const company = await this.getCompany();
+        if (!company) return;
+        const stopped = await this.stopTimerAt(timer.id, idleSince, company.wants_timestamp_timers);
+        if (stopped) {
+            new Notice(`Timer stopped at ${new Date(idleSince).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`);
+            if (this.settings.dailyNoteLog) void this.writeDailyNoteLog(parseISODate(stopped.spent_date));
+        }
+        void this.updateRunningTimer();
+    }
+
+    // Writes the day's entries into the managed section of that day's daily note, replacing the previous log there.
+    // Notes that don't exist yet aren't created, so their template still applies when they are.
+    async writeDailyNoteLog(date: Date, silent: boolean = true): Promise<boolean> {
+        const path = dailyNotePath(date, this.settings.dailyNoteFolder, this.settings.dailyNoteFormat);
+        const file = this.app.vault.getFileByPath(path);
+        if (!file) {
+            if (!silent) new Notice(`No daily note found at ${path}.`);
+            return false;
+        }
+
+        const entries = await this.getDayEntries(formatDate(date), silent);
+        if (!entries) return false;
+
+        const log = serializeDailyLog(entries);
+        await this.app.vault.process(file, content => replaceDailyLog(content, log));
+        if (!silent) new Notice(`Updated the time log in ${file.basename}.`);
+        return true;
+    }
+
+    // Writes today's log once the configured time of day has passed
+    private async checkDailyNoteLogTime() {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(this.settings.dailyNoteLogTime.trim());
+        if (!this.settings.dailyNoteLog || !match) return;
+
+        const now = new Date();
+        const today = formatDate(now);
+        if (this.dailyLogWrittenOn === today || minutesSinceMidnight(now.getTime()) < parseInt(match[1]) * 60 + parseInt(match[2])) return;
+
+        // A write that fails, e.g. while offline, is tried again the next minute
+        if (await this.writeDailyNoteLog(now)) this.dailyLogWrittenOn = today;
+    }
+
+    async queueOfflineAction(action: QueuedAction, silent: boolean = false) {
+        this.settings.offlineQueue.push(action);
+        await this.saveSettings();
+        if (!silent) {
+            new Notice('Offline: this will be sent to Harvest when the connection returns.');
+        }
+        this.renderStatusBar();
+    }
+
+    async queueOfflineStart(projectId: number, taskId: number, spentDate: ISODate, fields: Record<string, unknown>) {
+        const at = Date.now();
+        // Starting a timer in Harvest stops the running one, so record that stop at the same moment
+        if (this.runningTimer) {
+            await this.queueOfflineAction({ type: 'stop', at, timerId: this.runningTimer.id }, true);
+            this.runningTimer = null;
+        }
+        await this.queueOfflineAction({ type: 'start', at, projectId, taskId, spentDate, fields });
+    }
+
+    async queueOfflineStop(timerId: number | null) {
+        await this.queueOfflineAction({ type: 'stop', at: Date.now(), timerId });
+        if (this.runningTimer && this.runningTimer.id === timerId) {
+            this.runningTimer = null;
+        }
+    }
+
+    // Whether the queue ends with a timer started offline that hasn't been stopped since
+    hasQueuedRunningTimer(): boolean {
+        let running = false;
+        for (const action of this.settings.offlineQueue) {
+            if (action.type === 'start') running = true;
+            else if (action.type === 'stop' && action.timerId === null) running = false;
+        }
+        return running;
+    }
+
+    // Sends queued offline actions to Harvest in order. Stops at the first one that fails for lack of a
+    // connection, leaving it and the rest queued; actions Harvest rejects are dropped with a notice.
+    // While offline, replaying waits for the first response from Harvest, which starts it again
+    async replayOfflineQueue() {
+        if (this.isOffline || this.isReplayingQueue || this.settings.offlineQueue.length === 0) return;
+        this.isReplayingQueue = true;
+        try {
+            const company = await this.getCompany(true);
+            if (!company) return;
+
+            const queue = this.settings.offlineQueue;
+            while (queue.length > 0) {
+                const [action, ...rest] = queue;
+                await this.replayAction(action, rest, company.wants_timestamp_timers);
+                if (this.isOffline) break;
+                queue.shift();
+                await this.saveSettings();
+            }
+
+            if (queue.length === 0) {
+                new Notice('Offline timer actions have been sent to Harvest.');
+                this.refreshTimesheetViews();
+            }
+        } finally {
+            this.isReplayingQueue = false;
+            this.renderStatusBar();
+        }
+    }
+
+    private async replayAction(action: QueuedAction, rest: QueuedAction[], useTimestamps: boolean) {
+        switch (action.type) {
+            case 'start':
+                await this.replayStart(action, rest, useTimestamps);
+                break;
+            case 'stop':
+                await this.replayStop(action, useTimestamps);
+                break;
+            case 'log':
+                await this.sendQueued('/time_entries', 'POST', manualEntryBody(action.entry),
+                    `Harvest rejected time logged offline for ${action.entry.spentDate}`);
+                break;
+        }
+    }
+
+    // Sends a replayed request, returning null if it fails. Losing the connection again leaves the action queued
+    // without a notice; Harvest refusing it (a 4xx) is reported as `rejected`.
+    private async sendQueued<T>(endpoint: string, method: string, body: Record<string, unknown> | null, rejected: string): Promise<T | null> {
+        try {
+            return await this.send<T>(endpoint, method, body);
+        } catch (error) {
+            if (!(error instanceof HarvestApiError)) throw error;
+            if (error.status !== null && error.status >= 400 && error.status < 500) {
+                new Notice(`${rejected}: ${error.message}`);
+            } else if (error.kind !== HarvestErrorKind.OFFLINE) {
+                new Notice(`Harvest API error: ${error.message}`);
+            }
+            return null;
+        }
+    }
+
+    private async replayStart(start: QueuedTimerStart, rest: QueuedAction[], useTimestamps: boolean) {
+        // A timer started offline ran until the next offline start or stop, or is still running if there was none
+        const end = rest.find(action => action.type === 'start' || (action.type === 'stop' && action.timerId === null));
+        const endAt = end ? end.at : null;
+
+        const body: Record<string, unknown> = {
+            project_id: start.projectId,
+            task_id: start.taskId,
+            spent_date: start.spentDate,
+            ...start.fields,
+        };
+        if (useTimestamps) {
+            body.started_time = formatTimeOfDay(minutesSinceMidnight(start.at));
+            if (endAt !== null) body.ended_time = formatTimeOfDay(minutesSinceMidnight(endAt));
+        } else {
+            body.hours = ((endAt ?? Date.now()) - start.at) / HOUR_MS;
+        }
+
+        const rejected = `Harvest rejected a timer started offline on ${start.spentDate}`;
+        const created = await this.sendQueued<HarvestTimeEntry>('/time_entries', 'POST', body, rejected);
+        // An entry created with hours is stopped, so restart it to carry on timing
+        if (created && endAt === null && !useTimestamps) {
+            await this.sendQueued(`/time_entries/${created.id}/restart`, 'PATCH', null, rejected);
+        }
+    }
+
+    private async replayStop(stop: QueuedTimerStop, useTimestamps: boolean) {
+        // Stops of timers started offline are replayed along with their start
+        if (stop.timerId === null) return;
+
+        let entry: HarvestTimeEntry;
+        try {
+            entry = await this.send<HarvestTimeEntry>(`/time_entries/${stop.timerId}`);
+        } catch (error) {
+            if (!(error instanceof HarvestApiError)) throw error;
+            if (error.kind === HarvestErrorKind.NOT_FOUND) {
+                new Notice('Skipped a stop queued offline: the time entry no longer exists in Harvest.');
+            } else if (error.kind !== HarvestErrorKind.OFFLINE) {
+                new Notice(`Skipped a stop queued offline: ${error.message}`);
+            }
+            return;
+        }
+        if (!entry.is_running) {
+            new Notice(`Skipped a stop queued offline: ${entry.project.name} - ${entry.task.name} had already been stopped in Harvest.`);
+            return;
+        }
+
+        // Stopping now also counts the time since going offline, so wind the entry back to when it was really stopped
+        const rejected = `Harvest rejected a stop queued offline for ${entry.project.name} - ${entry.task.name}`;
+        const stopped = await this.sendQueued<HarvestTimeEntry>(`/time_entries/${stop.timerId}/stop`, 'PATCH', null, rejected);
+        if (stopped) {
+            await this.sendQueued(`/time_entries/${stop.timerId}`, 'PATCH', stopCorrection(stopped, stop.at, useTimestamps), rejected);
+        }
+    }
+
+    async toggleTimer() {
+        await this.updateRunningTimer();
+        if (this.runningTimer || this.hasQueuedRunningTimer()) {
+            new Notice('Stopping timer...');
+            await this.stopRunningTimer();
+        } else {
+            new Notice('No timer running. Starting a new one...');
+            new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile()).open();
+        }
+    }
+}
+
+// -- MODAL CLASSES --
+class ProjectSuggestModal extends FuzzySuggestModal<HarvestProjectFull> {
+    plugin: HarvestPlugin;
+    activeFile: TFile | null;
+    onChoose?: TaskChoiceCallback;
+
+    constructor(app: App, plugin: HarvestPlugin, activeFile: TFile | null, onChoose?: TaskChoiceCallback) {
+        super(app);
+        this.plugin = plugin;
+        this.activeFile = activeFile;
+        this.onChoose = onChoose;
+    }
+
+    getItems(): HarvestProjectFull[] {
+        let projects = [...this.plugin.projectCache];
+        
+        if (this.activeFile && this.activeFile.parent) {
+            const folderPath = this.activeFile.parent.path;
+            const cachedInfo = this.plugin.settings.folderProjectCache[folderPath];
+            
+            if (cachedInfo) {
+                const cachedProjectIndex = projects.findIndex(p => p.id === cachedInfo.projectId);
+                
+                if (cachedProjectIndex > -1) {
+                    // Move the cached project to the front of the list to pre-select it
+                    const cachedProject = projects.splice(cachedProjectIndex, 1)[0];
+                    projects.unshift(cachedProject);
+                }
+            }
+        }
+        
+        return projects;
+    }
+
+    getItemText(project: HarvestProjectFull): string {
+        return project.name;
+    }
+
+    renderSuggestion(match: FuzzyMatch<HarvestProjectFull>, el: HTMLElement) {
+        const project = match.item;
+        el.createDiv({ text: project.name });
+        el.createEl('small', { text: project.client?.name || 'No client' });
+    }
+
+    onChooseItem(project: HarvestProjectFull) {
+        void this.handleProjectChoice(project);
+    }
+
+    private async handleProjectChoice(project: HarvestProjectFull) {
+        const tasks = await this.plugin.getTaskAssignments(project);
+
+        if (tasks && tasks.length > 0) {
+            new TaskSuggestModal(this.app, this.plugin, project, tasks, this.activeFile, this.onChoose).open();
+        } else {
+            new Notice('No tasks found for this project.');
+        }
+    }
+}
+
+class TaskSuggestModal extends FuzzySuggestModal<HarvestTaskAssignment> {
+    plugin: HarvestPlugin;
+    project: HarvestProjectFull;
+    tasks: HarvestTaskAssignment[];
+    activeFile: TFile | null;
+    onChoose?: TaskChoiceCallback;
 
-    async onload() {
-        //Read in settings
-        await this.loadSettings();
-        await this.migrateCredentials();
+    constructor(app: App, plugin: HarvestPlugin, project: HarvestProjectFull, tasks: HarvestTaskAssignment[], activeFile: TFile | null, onChoose?: TaskChoiceCallback) {
+        super(app);
+        this.plugin = plugin;
+        this.project = project;
+        this.tasks = tasks;
+        this.activeFile = activeFile;
+        this.onChoose = onChoose;
+    }
 
-        // Set up status bar
-        this.statusBarItemEl = this.addStatusBarItem();
-        this.statusBarItemEl.setText('Harvest');
-        this.statusBarItemEl.addClass('mod-clickable');
-        this.statusBarItemEl.addEventListener('click', () => void this.toggleTimer());
+    getItems(): HarvestTaskAssignment[] {
+        let tasks = [...this.tasks]; // Create a mutable copy
 
-        // Set up settings
-        this.addSettingTab(new HarvestSettingTab(this.app, this));
+        if (this.activeFile && this.activeFile.parent) {
+            const folderPath = this.activeFile.parent.path;
+            const cachedInfo = this.plugin.settings.folderProjectCache[folderPath];
 
-        // Initial loading of user and projects (silent on startup to avoid popup spam if offline)
-        if (this.settings.personalAccessToken && this.settings.accountId) {
-            await this.fetchCurrentUserId(true);
+            // Check if the cache is for the currently selected project
+            if (cachedInfo && cachedInfo.projectId === this.project.id) {
+                const cachedTaskIndex = tasks.findIndex(t => t.task.id === cachedInfo.taskId);
+                
+                if (cachedTaskIndex > -1) {
+                    // Move the cached task to the front of the list to pre-select it
+                    const cachedTask = tasks.splice(cachedTaskIndex, 1)[0];
+                    tasks.unshift(cachedTask);
+                }
+            }
         }
+        
+        return tasks;
+    }
 
-        // Warm up the project cache on startup
-        void this.fetchAllTrackableProjects();
+    getItemText(taskAssignment: HarvestTaskAssignment): string {
+        return taskAssignment.task.name;
+    }
+    
+    renderSuggestion(match: FuzzyMatch<HarvestTaskAssignment>, el: HTMLElement) {
+        el.createDiv({ text: match.item.task.name });
+    }
 
-        this.addCommand({
-            id: 'start-timer',
-            name: 'Start timer',
-            callback: () => {
-                void new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile()).open();
-            }
-        });
+    onChooseItem(taskAssignment: HarvestTaskAssignment) {
+        if (this.onChoose) {
+            this.onChoose(this.project, taskAssignment);
+            return;
+        }
+        void this.plugin.startTimer(this.project.id, taskAssignment.task.id, this.activeFile);
+    }
+}
 
-        this.addCommand({
-            id: 'stop-timer',
-            name: 'Stop timer',
-            callback: async () => {
-                if (this.runningTimer) {
-                    await this.stopTimer(this.runningTimer.id);
-                } else {
-                    new Notice('No timer is currently running.');
-                }
-            }
-        });
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+    onChoose: (folder: TFolder) => void;
 
-        this.addCommand({
-            id: 'toggle-timer',
-            name: 'Toggle timer',
-            callback: async () => {
-                await this.toggleTimer();
-            }
-        });
+    constructor(app: App, onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a folder');
+    }
 
-        this.addCommand({
-            id: 'refresh-projects',
-            name: 'Refresh projects',
-            callback: async () => {
-                new Notice('Refreshing project list...');
-                await this.fetchAllTrackableProjects(true); // Force a refresh
-                new Notice('Project list has been updated.');
-            }
-        });
+    getItems(): TFolder[] {
+        return this.app.vault.getAllFolders(true);
+    }
 
-        // Register HQL code block processor
-        this.registerMarkdownCodeBlockProcessor('harvest', hqlProcessor(this));
+    getItemText(folder: TFolder): string {
+        return folder.isRoot() ? '/' : folder.path;
+    }
 
-        // Use the polling interval from settings
-        const pollingMinutes = this.settings.pollingInterval > 0 ? this.settings.pollingInterval : 5;
-        this.timerInterval = window.setInterval(() => void this.updateRunningTimer(), pollingMinutes * 60 * 1000);
-        
-        void this.updateRunningTimer();
+    onChooseItem(folder: TFolder) {
+        this.onChoose(folder);
     }
+}
 
-    onunload() {
-        if (this.timerInterval) {
-            activeWindow.clearInterval(this.timerInterval);
-        }
+class ProfileSuggestModal extends FuzzySuggestModal<HarvestProfile> {
+    profiles: HarvestProfile[];
+    onChoose: (profile: HarvestProfile) => void;
+
+    constructor(app: App, profiles: HarvestProfile[], onChoose: (profile: HarvestProfile) => void) {
+        super(app);
+        this.profiles = profiles;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a Harvest account');
     }
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData()) as HarvestPluginSettings;
+    getItems(): HarvestProfile[] {
+        return this.profiles;
     }
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+    getItemText(profile: HarvestProfile): string {
+        return profile.name;
     }
 
-    async migrateCredentials() {
-        if (this.settings.credentialsMigrated) return;
+    onChooseItem(profile: HarvestProfile) {
+        this.onChoose(profile);
+    }
+}
 
-        const rawToken = this.settings.personalAccessToken;
-        const rawAccountId = this.settings.accountId;
+class HarvestAccountSuggestModal extends FuzzySuggestModal<HarvestIdAccount> {
+    accounts: HarvestIdAccount[];
+    onChoose: (account: HarvestIdAccount) => void;
 
-        if (rawToken) {
-            this.app.secretStorage.setSecret('harvest-token', rawToken);
-            this.settings.personalAccessToken = 'harvest-token';
-        }
-        if (rawAccountId) {
-            this.app.secretStorage.setSecret('harvest-account-id', rawAccountId);
-            this.settings.accountId = 'harvest-account-id';
-        }
+    constructor(app: App, accounts: HarvestIdAccount[], onChoose: (account: HarvestIdAccount) => void) {
+        super(app);
+        this.accounts = accounts;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose the Harvest account to use');
+    }
 
-        this.settings.credentialsMigrated = true;
-        await this.saveSettings();
+    getItems(): HarvestIdAccount[] {
+        return this.accounts;
     }
 
-    async request<T = unknown>(
-        endpoint: string,
-        method: string = 'GET',
-        body: Record<string, unknown> | null = null,
-        silent: boolean = false
-    ): Promise<T | null> {
-        const token = this.app.secretStorage.getSecret(this.settings.personalAccessToken) ?? this.settings.personalAccessToken;
-        const accountId = this.app.secretStorage.getSecret(this.settings.accountId) ?? this.settings.accountId;
+    getItemText(account: HarvestIdAccount): string {
+        return account.name;
+    }
 
-        if (!token || !accountId) {
-            if (!silent) {
-                new Notice('Harvest API credentials are not set.');
-            }
-            return null;
-        }
-        const headers = {
-            'Authorization': `Bearer ${token}`,
-            'Harvest-Account-Id': accountId,
-            'User-Agent': 'Obsidian Harvest Integration',
-            'Content-Type': 'application/json'
-        };
-        try {
-            const response = await requestUrl({
-                url: `https://api.harvestapp.com/v2${endpoint}`,
-                method: method,
-                headers: headers,
-                body: body ? JSON.stringify(body) : undefined
-            });
+    onChooseItem(account: HarvestIdAccount) {
+        this.onChoose(account);
+    }
+}
 
-            if (response.status >= 400) {
-                if (!silent) {
-                    new Notice(`Harvest API error: ${(response.json as { message?: string }).message || response.status}`);
-                }
-                return null;
-            }
-            // Successful response - we're back online
-            this.isOffline = false;
-            return response.json as T;
-        } catch (error) {
-            // Network error - mark as offline
-            this.isOffline = true;
-            if (!silent) {
-                new Notice('Failed to connect to API.');
-            }
-            console.error('Harvest API request error:', error);
-            return null;
-        }
+class EditNotesModal extends Modal {
+    plugin: HarvestPlugin;
+    entry: HarvestTimeEntry;
+    notes: string;
+
+    constructor(app: App, plugin: HarvestPlugin, entry: HarvestTimeEntry) {
+        super(app);
+        this.plugin = plugin;
+        this.entry = entry;
+        this.notes = entry.notes ?? '';
     }
 
-    async fetchCurrentUserId(silent: boolean = false) {
-        const me = await this.request<HarvestCurrentUser>('/users/me', 'GET', null, silent);
-        if (me && me.id) {
-            this.userId = me.id;
-        } else {
-            this.userId = null;
-            if (!silent && !this.isOffline) {
-                new Notice('Could not retrieve user ID.');
-            }
-            console.error('Failed to fetch user ID.');
-        }
+    onOpen() {
+        const { contentEl } = this;
+        this.setTitle('Edit notes');
+        contentEl.createEl('p', { text: `${this.entry.project.name} › ${this.entry.task.name}` });
+        new Setting(contentEl)
+            .addTextArea(text => {
+                text.setValue(this.notes).onChange(value => { this.notes = value; });
+                text.inputEl.addClass('harvest-notes-input');
+            });
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => void this.save()));
     }
-    
-    async getTimeEntries(query: HarvestQuery): Promise<HarvestTimeEntry[]> {
-        if (!this.userId) {
-            new Notice('User ID not found. Cannot fetch your time entries.');
-            return [];
-        }
-        const endpoint = `/time_entries?from=${query.from}&to=${query.to}&user_id=${this.userId}`;
-        const data = await this.request<HarvestTimeEntriesResponse>(endpoint);
-        if (data && data.time_entries) {
-            return data.time_entries;
-        }
-        return [];
+
+    onClose() {
+        this.contentEl.empty();
     }
 
-    async fetchAllTrackableProjects(forceRefresh: boolean = false): Promise<HarvestProjectFull[]> {
-        // Return from cache unless refresh is forced
-        if (this.projectCache.length > 0 && !forceRefresh) {
-            return this.projectCache;
+    private async save() {
+        const updated = await this.plugin.updateTimeEntry(this.entry.id, { notes: this.notes });
+        if (updated) {
+            new Notice('Notes updated.');
+            this.close();
+            void this.plugin.updateRunningTimer();
         }
+    }
+}
 
-        // Get both managed projects and project in time entries. For projects where a user is not a manager,
-        // the only way to get a list of projects assigned to that user is through the time entries
-        // Use silent mode for background startup calls (non-forced refresh)
-        const silent = !forceRefresh;
-        const managedProjects = await this.getManagedProjects(silent);
-        const recentProjects = await this.getRecentProjectsFromTimeEntries(silent);
-        const combinedProjectMap = new Map<number, HarvestProjectFull>();
-        managedProjects.forEach(proj => combinedProjectMap.set(proj.id, proj));
-        recentProjects.forEach(proj => {
-            if (!combinedProjectMap.has(proj.id)) {
-                combinedProjectMap.set(proj.id, proj);
-            }
+class StopTickedTaskModal extends Modal {
+    plugin: HarvestPlugin;
+    timer: HarvestTimeEntry;
+    task: string;
+
+    constructor(app: App, plugin: HarvestPlugin, timer: HarvestTimeEntry, task: string) {
+        super(app);
+        this.plugin = plugin;
+        this.timer = timer;
+        this.task = task;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.setTitle('Stop timer?');
+        contentEl.createEl('p', {
+            text: `You ticked off "${this.task}". Stop its timer for ${this.timer.project.name} › ${this.timer.task.name}?`,
         });
-        const sortedProjects = Array.from(combinedProjectMap.values()).sort((a, b) => a.name.localeCompare(b.name));
-        this.projectCache = sortedProjects;
-        return this.projectCache;
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Keep running')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Stop timer')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    void this.plugin.stopTimer(this.timer.id);
+                }));
     }
 
-    async getManagedProjects(silent: boolean = false): Promise<HarvestProjectFull[]> {
-        let allProjects: HarvestProjectFull[] = [];
-        let page = 1;
-        let totalPages = 1;
-        do {
-            const data = await this.request<HarvestProjectsResponse>(`/projects?is_active=true&page=${page}`, 'GET', null, silent);
-            if (data && data.projects) {
-                allProjects = allProjects.concat(data.projects);
-                totalPages = data.total_pages;
-                page++;
-            } else { break; }
-        } while (page <= totalPages);
-        return allProjects;
+    onClose() {
+        this.contentEl.empty();
     }
+}
 
-    async getRecentProjectsFromTimeEntries(silent: boolean = false): Promise<HarvestProjectFull[]> {
-        if (!this.userId) return [];
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        const fromDate = thirtyDaysAgo.toISOString().split('T')[0];
-        const data = await this.request<HarvestTimeEntriesResponse>(`/time_entries?from=${fromDate}&user_id=${this.userId}`, 'GET', null, silent);
-        if (!data || !data.time_entries) return [];
-        const recentProjectsMap = new Map<number, HarvestProjectFull>();
-        data.time_entries.forEach((entry: HarvestTimeEntry) => {
-            if (entry.project && !recentProjectsMap.has(entry.project.id)) {
-                // Convert the simplified project from time entry to HarvestProjectFull
-                recentProjectsMap.set(entry.project.id, entry.project as unknown as HarvestProjectFull);
-            }
+class IdleTimeModal extends Modal {
+    plugin: HarvestPlugin;
+    timer: HarvestTimeEntry;
+    idleSince: number;
+
+    constructor(app: App, plugin: HarvestPlugin, timer: HarvestTimeEntry, idleSince: number) {
+        super(app);
+        this.plugin = plugin;
+        this.timer = timer;
+        this.idleSince = idleSince;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const idleTime = formatHoursMinutes((Date.now() - this.idleSince) / HOUR_MS);
+        const since = new Date(this.idleSince).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+        this.setTitle('You were idle');
+        contentEl.createEl('p', {
+            text: `Your timer for ${this.timer.project.name} › ${this.timer.task.name} kept running while you were away for ${idleTime}, since ${since}.`,
         });
-        return Array.from(recentProjectsMap.values());
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Keep the time')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Discard idle time')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    void this.plugin.discardIdleTime(this.timer, this.idleSince);
+                }))
+            .addButton(button => button
+                .setButtonText(`Stop at ${since}`)
+                .onClick(() => {
+                    this.close();
+                    void this.plugin.stopTimerAtIdle(this.timer, this.idleSince);
+                }));
     }
-    
-    async startTimer(projectId: number, taskId: number, activeFile: TFile | null) {
-        // Save the selected project/task to the cache for the current folder to use as future default
-        if (activeFile && activeFile.parent) {
-            const folderPath = activeFile.parent.path;
-            this.settings.folderProjectCache[folderPath] = { projectId, taskId };
-            await this.saveSettings();
-        }
 
-        const today = new Date();
-        const year = today.getFullYear();
-        const month = (today.getMonth() + 1).toString().padStart(2, '0');
-        const day = today.getDate().toString().padStart(2, '0');
-        const spentDate = `${year}-${month}-${day}`;
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-        // Check for existing entry today for this project/task to restart it
-        if (this.userId) {
-            const data = await this.request<HarvestTimeEntriesResponse>(`/time_entries?from=${spentDate}&to=${spentDate}&user_id=${this.userId}`);
-            if (data && data.time_entries) {
-                const existingEntry = data.time_entries.find(
-                    (entry: HarvestTimeEntry) => entry.project.id === projectId && entry.task.id === taskId
-                );
-                
-                if (existingEntry) {
-                    const result = await this.request(`/time_entries/${existingEntry.id}/restart`, 'PATCH');
-                    if (result) {
-                        new Notice('Timer restarted!');
-                        void this.updateRunningTimer();
-                    }
-                    return;
-                }
-            }
-        }
+class LogTimeModal extends Modal {
+    plugin: HarvestPlugin;
+    project: HarvestProjectFull;
+    taskAssignment: HarvestTaskAssignment;
+    useTimestamps: boolean;
+    spentDate: string = formatDate(new Date());
+    duration: string = '';
+    startTime: string = '';
+    endTime: string = '';
+    notes: string = '';
 
-        // No existing entry found, create a new one
-        const body = {
-            project_id: projectId,
-            task_id: taskId,
-            spent_date: spentDate,
-        };
-        const result = await this.request('/time_entries', 'POST', body);
-        if (result) {
-            new Notice('Timer started!');
-            void this.updateRunningTimer();
+    constructor(app: App, plugin: HarvestPlugin, project: HarvestProjectFull, taskAssignment: HarvestTaskAssignment, useTimestamps: boolean) {
+        super(app);
+        this.plugin = plugin;
+        this.project = project;
+        this.taskAssignment = taskAssignment;
+        this.useTimestamps = useTimestamps;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.setTitle('Log time');
+        contentEl.createEl('p', { text: `${this.project.name} › ${this.taskAssignment.task.name}` });
+
+        // Accounts tracking start and end times reject entries created from a bare duration
+        if (this.useTimestamps) {
+            new Setting(contentEl)
+                .setName('Start time')
+                .addText(text => text
+                    .setPlaceholder('9:00am')
+                    .onChange(value => { this.startTime = value; }));
+            new Setting(contentEl)
+                .setName('End time')
+                .addText(text => text
+                    .setPlaceholder('10:30am')
+                    .onChange(value => { this.endTime = value; }));
+        } else {
+            new Setting(contentEl)
+                .setName('Duration')
+                .setDesc('For example 1:30, 1.5h or 90m.')
+                .addText(text => text
+                    .setPlaceholder('1:30')
+                    .onChange(value => { this.duration = value; }));
         }
+        new Setting(contentEl)
+            .setName('Date')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.spentDate)
+                .onChange(value => { this.spentDate = value.trim(); }));
+        new Setting(contentEl)
+            .setName('Notes')
+            .addTextArea(text => text
+                .onChange(value => { this.notes = value; }));
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Log time')
+                .setCta()
+                .onClick(() => void this.submit()));
     }
 
-    async updateRunningTimer() {
-        if (!this.userId) return;
-        const data = await this.request<HarvestTimeEntriesResponse>(`/time_entries?is_running=true&user_id=${this.userId}`, 'GET', null, true);
+    onClose() {
+        this.contentEl.empty();
+    }
 
-        // Check if we're offline after the request
-        if (this.isOffline) {
-            this.statusBarItemEl.setText('Harvest: no network connection');
+    private async submit() {
+        if (!isISODate(this.spentDate)) {
+            new Notice('Invalid date. Use YYYY-MM-DD.');
             return;
         }
 
-        if (data && data.time_entries && data.time_entries.length > 0) {
-            this.runningTimer = data.time_entries[0];
-            const { project, task, hours } = this.runningTimer;
-            this.statusBarItemEl.setText(`Harvest: ${project.name} - ${task.name} (${formatHoursMinutes(hours)})`);
-        } else {
-            this.runningTimer = null;
-            this.statusBarItemEl.setText('Harvest: no timer running');
-        }
-    }
+        const entry: ManualTimeEntry = {
+            projectId: this.project.id,
+            taskId: this.taskAssignment.task.id,
+            spentDate: this.spentDate,
+            notes: this.notes,
+        };
 
-    async stopTimer(timerId: number) {
-        const result = await this.request(`/time_entries/${timerId}/stop`, 'PATCH');
-        if (result) {
-            new Notice('Timer stopped.');
-            void this.updateRunningTimer();
+        if (this.useTimestamps) {
+            const start = parseTimeOfDay(this.startTime);
+            const end = parseTimeOfDay(this.endTime);
+            if (start === null || end === null || end <= start) {
+                new Notice('Enter a start and end time, e.g. 9:00am and 10:30am, with the end after the start.');
+                return;
+            }
+            entry.startedTime = formatTimeOfDay(start);
+            entry.endedTime = formatTimeOfDay(end);
+        } else {
+            const hours = parseDuration(this.duration);
+            if (hours === null || hours <= 0) {
+                new Notice('Invalid duration. Use h:mm, decimal hours or minutes, e.g. 1:30, 1.5h or 90m.');
+                return;
+            }
+            entry.hours = hours;
         }
-    }
 
-    async toggleTimer() {
-        await this.updateRunningTimer();
-        if (this.runningTimer) {
-            new Notice('Stopping timer...');
-            await this.stopTimer(this.runningTimer.id);
-        } else {
-            new Notice('No timer running. Starting a new one...');
-            new ProjectSuggestModal(this.app, this, this.app.workspace.getActiveFile()).open();
+        if (await this.plugin.logTime(entry)) {
+            this.close();
         }
     }
 }
 
-// -- MODAL CLASSES --
-class ProjectSuggestModal extends FuzzySuggestModal<HarvestProjectFull> {
+// Previews time logs found in a note. Logs with a problem can't be selected, and likely duplicates start unselected.
+class ImportTimeLogsModal extends Modal {
     plugin: HarvestPlugin;
-    activeFile: TFile | null;
+    imports: TimeLogImport[];
+    selected: Set<TimeLogImport>;
 
-    constructor(app: App, plugin: HarvestPlugin, activeFile: TFile | null) {
+    constructor(app: App, plugin: HarvestPlugin, imports: TimeLogImport[]) {
         super(app);
         this.plugin = plugin;
-        this.activeFile = activeFile;
+        this.imports = imports;
+        this.selected = new Set(imports.filter(item => item.entry && !item.duplicate));
     }
 
-    getItems(): HarvestProjectFull[] {
-        let projects = [...this.plugin.projectCache];
-        
-        if (this.activeFile && this.activeFile.parent) {
-            const folderPath = this.activeFile.parent.path;
-            const cachedInfo = this.plugin.settings.folderProjectCache[folderPath];
-            
-            if (cachedInfo) {
-                const cachedProjectIndex = projects.findIndex(p => p.id === cachedInfo.projectId);
-                
-                if (cachedProjectIndex > -1) {
-                    // Move the cached project to the front of the list to pre-select it
-                    const cachedProject = projects.splice(cachedProjectIndex, 1)[0];
-                    projects.unshift(cachedProject);
-                }
+    onOpen() {
+        const { contentEl } = this;
+        this.setTitle('Import time logs');
+
+        for (const item of this.imports) {
+            const { log } = item;
+            const time = log.start !== null && log.end !== null
+                ? `${formatTimeOfDay(log.start)}–${formatTimeOfDay(log.end)} (${formatHoursMinutes(log.hours)})`
+                : formatHoursMinutes(log.hours);
+            const details = [`Line ${log.line + 1}`, item.entry?.spentDate ?? log.date, time, log.notes].filter(Boolean).join(' · ');
+
+            const setting = new Setting(contentEl)
+                .setName(item.title)
+                .setDesc(details)
+                .addToggle(toggle => toggle
+                    .setValue(this.selected.has(item))
+                    .setDisabled(!item.entry)
+                    .onChange(value => {
+                        if (value) this.selected.add(item);
+                        else this.selected.delete(item);
+                    }));
+            const warning = item.problem ?? (item.duplicate ? 'Looks like an entry already in Harvest for this day.' : null);
+            if (warning) {
+                setting.descEl.createDiv({ cls: 'harvest-import-warning', text: warning });
+                setting.settingEl.addClass(item.problem ? 'has-problem' : 'is-duplicate');
             }
         }
-        
-        return projects;
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Import')
+                .setCta()
+                .onClick(() => void this.submit()));
     }
 
-    getItemText(project: HarvestProjectFull): string {
-        return project.name;
+    onClose() {
+        this.contentEl.empty();
     }
 
-    renderSuggestion(match: FuzzyMatch<HarvestProjectFull>, el: HTMLElement) {
-        const project = match.item;
-        el.createDiv({ text: project.name });
-        el.createEl('small', { text: project.client?.name || 'No client' });
+    private async submit() {
+        const entries = this.imports.filter(item => this.selected.has(item)).map(item => item.entry as ManualTimeEntry);
+        if (entries.length === 0) {
+            new Notice('Select at least one time log to import.');
+            return;
+        }
+        this.close();
+        await this.plugin.importTimeEntries(entries);
     }
+}
 
-    onChooseItem(project: HarvestProjectFull) {
-        void this.handleProjectChoice(project);
+// Exports HQL results, either a report's entries or those of a query entered in the modal
+class ExportModal extends Modal {
+    plugin: HarvestPlugin;
+    format: ExportFormat;
+    report: { entries: HarvestTimeEntry[], query: HarvestQuery } | null;
+    source: string = '';
+    columns: string;
+    destination: ExportDestination = 'file';
+    path: string = '';
+
+    constructor(app: App, plugin: HarvestPlugin, format: ExportFormat, report: { entries: HarvestTimeEntry[], query: HarvestQuery } | null) {
+        super(app);
+        this.plugin = plugin;
+        this.format = format;
+        this.report = report;
+        this.columns = plugin.settings.exportColumns;
     }
 
-    private async handleProjectChoice(project: HarvestProjectFull) {
-        let tasks = project.task_assignments;
-        if (!tasks) {
-            const data = await this.plugin.request<HarvestTaskAssignmentsResponse>(`/projects/${project.id}/task_assignments`);
-            tasks = data?.task_assignments;
+    onOpen() {
+        const { contentEl } = this;
+        this.setTitle('Export query results');
+
+        if (!this.report) {
+            new Setting(contentEl)
+                .setName('Query')
+                .setDesc('Any harvest code block query, e.g. LIST LAST MONTH WHERE client = "Acme Corp".')
+                .addTextArea(text => text
+                    .setPlaceholder('LIST LAST MONTH')
+                    .onChange(value => { this.source = value; }));
         }
+        new Setting(contentEl)
+            .setName('Format')
+            .addDropdown(dropdown => dropdown
+                .addOption('csv', 'CSV')
+                .addOption('json', 'JSON')
+                .addOption('markdown', 'Markdown table')
+                .setValue(this.format)
+                .onChange(value => { this.format = value as ExportFormat; }));
+        new Setting(contentEl)
+            .setName('Columns')
+            .setDesc(`Comma-separated, from: ${EXPORT_FIELDS.map(field => field.name).join(', ')}.`)
+            .addText(text => text
+                .setValue(this.columns)
+                .onChange(value => { this.columns = value; }));
+        new Setting(contentEl)
+            .setName('Export to')
+            .addDropdown(dropdown => dropdown
+                .addOption('file', 'Vault file')
+                .addOption('clipboard', 'Clipboard')
+                .setValue(this.destination)
+                .onChange(value => { this.destination = value as ExportDestination; }));
+        new Setting(contentEl)
+            .setName('File path')
+            .setDesc('Used when exporting to a vault file. Leave empty to name the file after the time range.')
+            .addText(text => text
+                .setPlaceholder('Exports/Harvest 2025-01-01 to 2025-01-31.csv')
+                .setValue(this.path)
+                .onChange(value => { this.path = value.trim(); }));
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => void this.submit()));
+    }
 
-        if (tasks && tasks.length > 0) {
-            new TaskSuggestModal(this.app, this.plugin, project, tasks, this.activeFile).open();
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private async submit() {
+        let fields: ExportField[];
+        let report = this.report;
+        try {
+            fields = parseExportColumns(this.columns);
+            if (!report) {
+                const file = this.app.workspace.getActiveFile();
+                const query = parseQuery(this.source, this.plugin.queryContext(file?.path ?? ''));
+                if (query.type === QueryType.BUDGET) throw new Error("BUDGET reports have no time entries to export.");
+                const { entries } = await this.plugin.getTimeEntries(query);
+                report = { entries, query };
+            }
+        } catch (e) {
+            new Notice(e instanceof Error ? e.message : String(e));
+            return;
+        }
+
+        this.plugin.settings.exportColumns = this.columns;
+        await this.plugin.saveSettings();
+
+        const content = exportEntries(report.entries, fields, this.format);
+        const count = `${report.entries.length} ${report.entries.length === 1 ? 'entry' : 'entries'}`;
+        // The modal stays open after a failure, so the export can be tried again or sent elsewhere
+        if (this.destination === 'clipboard') {
+            try {
+                await navigator.clipboard.writeText(content);
+            } catch (e) {
+                new Notice(`Could not copy the export to the clipboard: ${e instanceof Error ? e.message : String(e)}`);
+                return;
+            }
+            new Notice(`Copied ${count} to the clipboard.`);
         } else {
-            new Notice('No tasks found for this project.');
+            const path = this.path || defaultExportPath(report.query, this.format);
+            try {
+                await this.plugin.writeExportFile(path, content);
+            } catch (e) {
+                new Notice(`Could not export to ${path}: ${e instanceof Error ? e.message : String(e)}`);
+                return;
+            }
+            new Notice(`Exported ${count} to ${path}.`);
         }
+        this.close();
     }
 }
 
-class TaskSuggestModal extends FuzzySuggestModal<HarvestTaskAssignment> {
+function defaultExportPath(query: HarvestQuery, format: ExportFormat): string {
+    return `Harvest ${query.from} to ${query.to}.${EXPORT_EXTENSIONS[format]}`;
+}
+
+// -- VIEW CLASSES --
+class TimesheetView extends ItemView {
     plugin: HarvestPlugin;
-    project: HarvestProjectFull;
-    tasks: HarvestTaskAssignment[];
-    activeFile: TFile | null;
+    date: Date = new Date();
 
-    constructor(app: App, plugin: HarvestPlugin, project: HarvestProjectFull, tasks: HarvestTaskAssignment[], activeFile: TFile | null) {
-        super(app);
+    constructor(leaf: WorkspaceLeaf, plugin: HarvestPlugin) {
+        super(leaf);
         this.plugin = plugin;
-        this.project = project;
-        this.tasks = tasks;
-        this.activeFile = activeFile;
     }
 
-    getItems(): HarvestTaskAssignment[] {
-        let tasks = [...this.tasks]; // Create a mutable copy
+    getViewType(): string {
+        return TIMESHEET_VIEW_TYPE;
+    }
 
-        if (this.activeFile && this.activeFile.parent) {
-            const folderPath = this.activeFile.parent.path;
-            const cachedInfo = this.plugin.settings.folderProjectCache[folderPath];
+    getDisplayText(): string {
+        return 'Harvest timesheet';
+    }
 
-            // Check if the cache is for the currently selected project
-            if (cachedInfo && cachedInfo.projectId === this.project.id) {
-                const cachedTaskIndex = tasks.findIndex(t => t.task.id === cachedInfo.taskId);
-                
-                if (cachedTaskIndex > -1) {
-                    // Move the cached task to the front of the list to pre-select it
-                    const cachedTask = tasks.splice(cachedTaskIndex, 1)[0];
-                    tasks.unshift(cachedTask);
-                }
-            }
-        }
-        
-        return tasks;
+    getIcon(): string {
+        return 'clock';
     }
 
-    getItemText(taskAssignment: HarvestTaskAssignment): string {
-        return taskAssignment.task.name;
+    async onOpen() {
+        await this.refresh(true);
     }
-    
-    renderSuggestion(match: FuzzyMatch<HarvestTaskAssignment>, el: HTMLElement) {
-        el.createDiv({ text: match.item.task.name });
+
+    async refresh(force: boolean = false) {
+        // Don't rebuild the view while notes or hours are being edited, or the edit would be lost
+        const focused = activeDocument.activeElement;
+        const editing = (focused instanceof HTMLInputElement || focused instanceof HTMLTextAreaElement) && this.contentEl.contains(focused);
+        if (editing && !force) return;
+
+        const entries = await this.plugin.getDayEntries(formatDate(this.date));
+        this.render(entries);
     }
 
-    onChooseItem(taskAssignment: HarvestTaskAssignment) {
-        void this.plugin.startTimer(this.project.id, taskAssignment.task.id, this.activeFile);
+    private async showDay(date: Date) {
+        this.date = date;
+        await this.refresh(true);
+    }
+
+    private render(entries: HarvestTimeEntry[] | null) {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('harvest-timesheet');
+
+        const nav = contentEl.createDiv({ cls: 'harvest-timesheet-nav' });
+        nav.createEl('button', { text: '‹', attr: { 'aria-label': 'Previous day' } })
+            .addEventListener('click', () => void this.showDay(addDays(this.date, -1)));
+        nav.createSpan({
+            text: this.date.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }),
+            cls: 'harvest-timesheet-date',
+        });
+        nav.createEl('button', { text: '›', attr: { 'aria-label': 'Next day' } })
+            .addEventListener('click', () => void this.showDay(addDays(this.date, 1)));
+        nav.createEl('button', { text: 'Today' })
+            .addEventListener('click', () => void this.showDay(new Date()));
+
+        if (!entries) {
+            contentEl.createEl('p', { text: 'Could not load time entries.' });
+            return;
+        }
+
+        const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+        contentEl.createEl('p', { cls: 'harvest-timesheet-total' }).createEl('strong', { text: `Total: ${formatHoursMinutes(totalHours)}` });
+
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: 'No time entries for this day.' });
+            return;
+        }
+
+        // Harvest only restarts timers on today's entries
+        const isToday = formatDate(this.date) === formatDate(new Date());
+        for (const entry of entries) {
+            this.renderEntry(contentEl, entry, isToday);
+        }
+    }
+
+    private renderEntry(container: HTMLElement, entry: HarvestTimeEntry, isToday: boolean) {
+        const item = container.createDiv({ cls: 'harvest-timesheet-entry' });
+        if (entry.is_running) item.addClass('is-running');
+
+        const header = item.createDiv({ cls: 'harvest-timesheet-entry-header' });
+        const title = header.createDiv({ cls: 'harvest-timesheet-entry-title' });
+        title.createDiv({ text: entry.project.name });
+        title.createEl('small', { text: `${entry.task.name} · ${entry.client.name}` });
+
+        const hoursInput = header.createEl('input', { type: 'text', cls: 'harvest-timesheet-hours' });
+        hoursInput.value = formatHoursMinutes(entry.hours);
+        hoursInput.disabled = entry.is_running || entry.is_locked;
+        hoursInput.addEventListener('change', () => void this.saveHours(entry, hoursInput));
+
+        const timerButton = header.createEl('button', { text: entry.is_running ? 'Stop' : 'Start' });
+        if (entry.is_running) timerButton.addClass('mod-warning');
+        timerButton.disabled = entry.is_locked || (!entry.is_running && !isToday);
+        timerButton.addEventListener('click', () => {
+            void (entry.is_running ? this.plugin.stopTimer(entry.id) : this.plugin.restartTimer(entry.id));
+        });
+
+        const notesInput = item.createEl('textarea', { cls: 'harvest-timesheet-notes', attr: { placeholder: 'Notes', rows: '2' } });
+        notesInput.value = entry.notes ?? '';
+        notesInput.disabled = entry.is_locked;
+        notesInput.addEventListener('change', () => {
+            void this.plugin.updateTimeEntry(entry.id, { notes: notesInput.value });
+        });
+
+        if (entry.is_locked) {
+            item.createEl('small', { text: entry.locked_reason ?? 'This entry is locked.', cls: 'harvest-timesheet-locked' });
+        }
+    }
+
+    private async saveHours(entry: HarvestTimeEntry, input: HTMLInputElement) {
+        const hours = parseDuration(input.value);
+        if (hours === null) {
+            new Notice('Invalid duration. Use h:mm, decimal hours or minutes, e.g. 1:30, 1.5h or 90m.');
+            input.value = formatHoursMinutes(entry.hours);
+            return;
+        }
+        await this.plugin.updateTimeEntry(entry.id, { hours });
     }
 }
 
@@ -916,33 +5224,136 @@ class HarvestSettingTab extends PluginSettingTab {
         super(app, plugin);
         this.plugin = plugin;
     }
+
+    private displayProfile(containerEl: HTMLElement, profile: HarvestProfile) {
+        const settings = this.plugin.settings;
+        const isActive = profile === this.plugin.activeProfile;
+        // Only the active profile's user is looked up straight away; others are when first used
+        const credentialsChanged = async () => {
+            await this.plugin.saveSettings();
+            this.plugin.sessions.delete(profile);
+            if (isActive && profile.personalAccessToken && profile.accountId) {
+                await this.plugin.fetchCurrentUserId();
+            }
+        };
+
+        const name = new Setting(containerEl)
+            .setName(isActive ? `${profile.name} (active)` : profile.name)
+            .addText(text => text
+                .setPlaceholder('Account name')
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    const newName = value.trim();
+                    const existing = findProfile(settings.profiles, newName);
+                    if (!newName || (existing && existing !== profile)) return;
+                    if (isActive) settings.activeProfile = newName;
+                    profile.name = newName;
+                    await this.plugin.saveSettings();
+                }));
+        if (settings.profiles.length > 1) {
+            name.addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Remove account')
+                .onClick(async () => {
+                    settings.profiles.remove(profile);
+                    this.plugin.sessions.delete(profile);
+                    if (isActive) settings.activeProfile = settings.profiles[0].name;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        }
+        name.settingEl.addClass('harvest-profile-heading');
+
+        if (profile.oauth) {
+            new Setting(containerEl)
+                .setName('Signed in with Harvest ID')
+                .setDesc('The sign-in is renewed automatically.')
+                .addButton(button => button
+                    .setButtonText('Sign in again')
+                    .onClick(() => this.plugin.beginSignIn(profile)))
+                .addButton(button => button
+                    .setButtonText('Sign out')
+                    .onClick(async () => {
+                        await this.plugin.signOut(profile);
+                        this.display();
+                    }));
+        } else {
+            new Setting(containerEl)
+                .setName('Sign in with Harvest')
+                .setDesc('Sign in through Harvest ID and pick an account, instead of entering a token and account ID below. Needs the OAuth application set up under Harvest ID sign-in.')
+                .addButton(button => button
+                    .setButtonText('Sign in')
+                    .setCta()
+                    .onClick(() => this.plugin.beginSignIn(profile)));
+            new Setting(containerEl)
+                .setName('Personal access token')
+                .setDesc('Select or create a secret in SecretStorage containing your Harvest personal access token.')
+                .addComponent(el => new SecretComponent(this.app, el)
+                    .setValue(profile.personalAccessToken)
+                    .onChange(async (value) => {
+                        profile.personalAccessToken = value;
+                        await credentialsChanged();
+                    }));
+            new Setting(containerEl)
+                .setName('Account ID')
+                .setDesc('Select or create a secret in SecretStorage containing your Harvest account ID.')
+                .addComponent(el => new SecretComponent(this.app, el)
+                    .setValue(profile.accountId)
+                    .onChange(async (value) => {
+                        profile.accountId = value;
+                        await credentialsChanged();
+                    }));
+        }
+        if (settings.profiles.length > 1) {
+            new Setting(containerEl)
+                .setName('Folders')
+                .setDesc('Opening a note in one of these folders switches to this account. Separate folders with commas.')
+                .addText(text => text
+                    .setPlaceholder('Example: Clients/Acme')
+                    .setValue(profile.folders.join(', '))
+                    .onChange(async (value) => {
+                        profile.folders = parseFolderList(value);
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
-        new Setting(containerEl).setName('Credentials').setHeading();
+        new Setting(containerEl).setName('Accounts').setHeading();
+        for (const profile of this.plugin.settings.profiles) {
+            this.displayProfile(containerEl, profile);
+        }
         new Setting(containerEl)
-            .setName('Personal access token')
-            .setDesc('Select or create a secret in SecretStorage containing your Harvest personal access token.')
-            .addComponent(el => new SecretComponent(this.app, el)
-                .setValue(this.plugin.settings.personalAccessToken)
+            .setDesc('Add a profile for each Harvest account you work in. Switch between them with the Switch Harvest account command.')
+            .addButton(button => button
+                .setButtonText('Add account')
+                .onClick(async () => {
+                    const profiles = this.plugin.settings.profiles;
+                    let number = profiles.length + 1;
+                    while (findProfile(profiles, `Account ${number}`)) number++;
+                    profiles.push({ name: `Account ${number}`, personalAccessToken: '', accountId: '', folders: [] });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        new Setting(containerEl).setName('Harvest ID sign-in').setHeading();
+        new Setting(containerEl)
+            .setName('OAuth client ID')
+            .setDesc('The client ID of an OAuth2 application created at id.getharvest.com/developers, with obsidian://harvest-auth as its redirect URL. One application can be shared by a whole team.')
+            .addText(text => text
+                .setValue(this.plugin.settings.oauthClientId)
                 .onChange(async (value) => {
-                    this.plugin.settings.personalAccessToken = value;
+                    this.plugin.settings.oauthClientId = value.trim();
                     await this.plugin.saveSettings();
-                    if (this.plugin.settings.accountId) {
-                        await this.plugin.fetchCurrentUserId();
-                    }
                 }));
         new Setting(containerEl)
-            .setName('Account ID')
-            .setDesc('Select or create a secret in SecretStorage containing your Harvest account ID.')
+            .setName('OAuth client secret')
+            .setDesc('Select or create a secret in SecretStorage containing the application\'s client secret.')
             .addComponent(el => new SecretComponent(this.app, el)
-                .setValue(this.plugin.settings.accountId)
+                .setValue(this.plugin.settings.oauthClientSecret)
                 .onChange(async (value) => {
-                    this.plugin.settings.accountId = value;
+                    this.plugin.settings.oauthClientSecret = value;
                     await this.plugin.saveSettings();
-                    if (this.plugin.settings.personalAccessToken) {
-                        await this.plugin.fetchCurrentUserId();
-                    }
                 }));
         new Setting(containerEl).setName('Configuration').setHeading();
         new Setting(containerEl)
@@ -958,5 +5369,209 @@ class HarvestSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     }
                 }));
+        new Setting(containerEl)
+            .setName('Status bar format')
+            .setDesc('Placeholders: {project}, {task}, {client}, {notes}, {account}, {elapsed}, {today_total} and {week_total}.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_STATUS_BAR_FORMAT)
+                .setValue(this.plugin.settings.statusBarFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.statusBarFormat = value || DEFAULT_STATUS_BAR_FORMAT;
+                    await this.plugin.saveSettings();
+                    // Totals newly added to the format are fetched with the next poll, not on every keystroke
+                    this.plugin.renderStatusBar();
+                }));
+        new Setting(containerEl)
+            .setName('First day of the week')
+            .setDesc('Used for WEEK time ranges and GROUP BY week in reports.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ '0': 'Sunday', '1': 'Monday', '2': 'Tuesday', '3': 'Wednesday', '4': 'Thursday', '5': 'Friday', '6': 'Saturday' })
+                .setValue(String(this.plugin.settings.weekStart))
+                .onChange(async (value) => {
+                    this.plugin.settings.weekStart = parseInt(value);
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Link time entries to notes')
+            .setDesc('When starting a timer, link the new time entry back to the active note. Linked entries can be reported on with WHERE note = this.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ 'none': 'Off', 'notes': 'Note title and link in entry notes', 'external-reference': 'External reference' })
+                .setValue(this.plugin.settings.noteLinkMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.noteLinkMode = value as NoteLinkMode;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Page size')
+            .setDesc('How many records to request per page when fetching lists such as time entries. Harvest allows up to 2000.')
+            .addText(text => text
+                .setPlaceholder('Default: 100')
+                .setValue(String(this.plugin.settings.pageSize))
+                .onChange(async (value) => {
+                    const size = parseInt(value);
+                    if (!isNaN(size) && size > 0 && size <= 2000) {
+                        this.plugin.settings.pageSize = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+        new Setting(containerEl)
+            .setName('Maximum concurrent requests')
+            .setDesc('How many pages to fetch at once for long report ranges. Lower this if you hit Harvest\'s rate limit.')
+            .addText(text => text
+                .setPlaceholder('Default: 3')
+                .setValue(String(this.plugin.settings.maxConcurrentRequests))
+                .onChange(async (value) => {
+                    const concurrency = parseInt(value);
+                    if (!isNaN(concurrency) && concurrency > 0) {
+                        this.plugin.settings.maxConcurrentRequests = concurrency;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+        new Setting(containerEl).setName('Daily notes').setHeading();
+        new Setting(containerEl)
+            .setName('Write time log to daily notes')
+            .setDesc('Keep a table of the day\'s time entries in a section of that day\'s daily note, updated whenever you stop a timer. The rest of the note is left alone.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dailyNoteLog)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteLog = value;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Daily note folder')
+            .setDesc('The folder daily notes are kept in, as set in the Daily notes plugin. Leave empty for the vault root.')
+            .addText(text => text
+                .setPlaceholder('Example: Journal/Daily')
+                .setValue(this.plugin.settings.dailyNoteFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Daily note date format')
+            .setDesc('The daily note file name format, as set in the Daily notes plugin.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_DAILY_NOTE_FORMAT)
+                .setValue(this.plugin.settings.dailyNoteFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteFormat = value.trim() || DEFAULT_DAILY_NOTE_FORMAT;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Also update at')
+            .setDesc('A time of day (24-hour, e.g. 18:00) to update today\'s log as well, for time logged elsewhere. Leave empty to only update it when you stop a timer.')
+            .addText(text => text
+                .setPlaceholder('Example: 18:00')
+                .setValue(this.plugin.settings.dailyNoteLogTime)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteLogTime = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl).setName('Idle detection').setHeading();
+        new Setting(containerEl)
+            .setName('Ask about idle time')
+            .setDesc('When a timer has been running with no mouse or keyboard activity in Obsidian for a while, ask on your return whether to keep the time, discard it or stop the timer from when you went idle. Time spent in other apps counts as idle.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.idleDetection)
+                .onChange(async (value) => {
+                    this.plugin.settings.idleDetection = value;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Idle after (minutes)')
+            .setDesc('How long without activity counts as being idle.')
+            .addText(text => text
+                .setPlaceholder('Default: 10')
+                .setValue(String(this.plugin.settings.idleMinutes))
+                .onChange(async (value) => {
+                    const minutes = parseInt(value);
+                    if (!isNaN(minutes) && minutes > 0) {
+                        this.plugin.settings.idleMinutes = minutes;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+        new Setting(containerEl).setName('Freezing reports').setHeading();
+        new Setting(containerEl)
+            .setName('Style')
+            .setDesc('Whether frozen reports are wrapped in an info callout with a title, or left as a plain table or list.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ 'callout': 'Callout', 'table': 'Plain table or list' })
+                .setValue(this.plugin.settings.freezeStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.freezeStyle = value as FreezeStyle;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('List columns')
+            .setDesc('Comma-separated columns for frozen LIST reports, from the export columns (e.g. date, client, project, task, hours, notes). SHOW columns are added after them.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_FREEZE_COLUMNS)
+                .setValue(this.plugin.settings.freezeColumns)
+                .onChange(async (value) => {
+                    this.plugin.settings.freezeColumns = value;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Keep query')
+            .setDesc('Keep the query in a hidden comment above the frozen report, so the "Refresh frozen snapshots in this note" command can regenerate it.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.freezeKeepQuery)
+                .onChange(async (value) => {
+                    this.plugin.settings.freezeKeepQuery = value;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Save totals to properties')
+            .setDesc('Also record the frozen period and its total and billable hours as note properties (harvest-from, harvest-to, harvest-hours and harvest-billable-hours).')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.freezeProperties)
+                .onChange(async (value) => {
+                    this.plugin.settings.freezeProperties = value;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl).setName('Folder mappings').setHeading();
+        new Setting(containerEl)
+            .setDesc('The project and task pre-selected when starting a timer from a note in each folder. Starting a timer updates the mapping for that note\'s folder.')
+            .addButton(button => button
+                .setButtonText('Add folder')
+                .onClick(() => {
+                    new FolderSuggestModal(this.app, folder => this.editFolderMapping(folder.path)).open();
+                }));
+        for (const folderPath of Object.keys(this.plugin.settings.folderProjectCache).sort()) {
+            const { projectId, taskId } = this.plugin.settings.folderProjectCache[folderPath];
+            const project = this.plugin.projectCache.find(p => p.id === projectId);
+            const projectName = project?.name ?? `Project ${projectId}`;
+            const setting = new Setting(containerEl)
+                .setName(folderPath)
+                .setDesc(`${projectName} › Task ${taskId}`)
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Change project and task')
+                    .onClick(() => this.editFolderMapping(folderPath)))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove mapping')
+                    .onClick(async () => {
+                        delete this.plugin.settings.folderProjectCache[folderPath];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            // Task names aren't stored in the mapping, so fill them in once the project's tasks are loaded. Without
+            // them (offline, or a role that can't list them) the task ID stays, rather than a notice for each mapping.
+            if (project) {
+                void this.plugin.getTaskAssignments(project, true).then(tasks => {
+                    const assignment = tasks?.find(a => a.task.id === taskId);
+                    if (assignment) setting.setDesc(`${projectName} › ${assignment.task.name}`);
+                });
+            }
+        }
+    }
+
+    private editFolderMapping(folderPath: string) {
+        new ProjectSuggestModal(this.app, this.plugin, null, (project, taskAssignment) => {
+            this.plugin.settings.folderProjectCache[folderPath] = { projectId: project.id, taskId: taskAssignment.task.id };
+            void this.plugin.saveSettings().then(() => this.display());
+        }).open();
     }
 }
@@ -0,0 +1,411 @@
+import type {
+    HarvestClient,
+    HarvestCompany,
+    HarvestCurrentUser,
+    HarvestIdAccount,
+    HarvestPaginatedResponse,
+    HarvestProjectAssignment,
+    HarvestProjectBudgetReport,
+    HarvestProjectFull,
+    HarvestRequest,
+    HarvestResponse,
+    HarvestTaskAssignment,
+    HarvestTimeEntry,
+    HarvestTransport,
+} from '../main';
+
+const API_ROOT = 'https://api.harvestapp.com/v2';
+const HARVEST_ID_HOST = 'id.getharvest.com';
+
+interface FakeProjectOptions {
+    code?: string;
+    client?: HarvestClient;
+    tasks?: string[];
+    // Whether /projects lists it. Projects the user doesn't manage only show up through their time entries.
+    managed?: boolean;
+}
+
+interface FakeEntryOptions {
+    project: HarvestProjectFull;
+    task?: string;
+    spentDate: string;
+    hours?: number;
+    notes?: string;
+    isRunning?: boolean;
+    billable?: boolean;
+    // Someone else's entry, instead of the current user's
+    user?: { id: number, name: string };
+}
+
+// An in-memory Harvest account, answering the API requests the plugin makes. Requests are recorded in
+// `requests` for assertions, and setting `online` to false makes every request fail like a lost connection.
+export class FakeHarvest implements HarvestTransport {
+    user: HarvestCurrentUser = { id: 1001, first_name: 'Test', last_name: 'User', email: 'test@example.com', access_roles: ['member'] };
+    company: HarvestCompany = {
+        name: 'Example Co',
+        full_domain: 'example.harvestapp.com',
+        wants_timestamp_timers: false,
+        time_format: 'hours_minutes',
+        week_start_day: 'Monday',
+    };
+    projects: HarvestProjectFull[] = [];
+    managedProjectIds = new Set<number>();
+    taskAssignments = new Map<number, HarvestTaskAssignment[]>();
+    entries: HarvestTimeEntry[] = [];
+    requests: HarvestRequest[] = [];
+    online = true;
+    // Harvest only shows the project budget report to administrators and project managers
+    canSeeBudgetReport = true;
+    // Harvest ID: the code a sign-in redirects back with, the accounts it offers and the tokens it has handed out.
+    // Once it has handed out an access token, API requests must use the latest one.
+    authorizationCode = 'authorization-code';
+    harvestIdAccounts: HarvestIdAccount[] = [
+        { id: 12345, name: 'Example Co', product: 'harvest' },
+        { id: 67890, name: 'Example Co', product: 'forecast' },
+    ];
+    accessToken: string | null = null;
+    refreshToken: string | null = null;
+    private tokensIssued = 0;
+
+    private nextId = 1;
+
+    addClient(name: string, currency: string = 'USD'): HarvestClient {
+        return { id: this.nextId++, name, currency };
+    }
+
+    addProject(name: string, options: FakeProjectOptions = {}): HarvestProjectFull {
+        const project: HarvestProjectFull = {
+            id: this.nextId++,
+            name,
+            code: options.code ?? '',
+            is_active: true,
+            is_billable: true,
+            is_fixed_fee: false,
+            bill_by: 'Tasks',
+            budget: null,
+            budget_by: 'none',
+            budget_is_monthly: false,
+            notify_when_over_budget: false,
+            over_budget_notification_percentage: 80,
+            show_budget_to_all: false,
+            created_at: '2026-01-01T00:00:00Z',
+            updated_at: '2026-01-01T00:00:00Z',
+            starts_on: '2026-01-01',
+            ends_on: null,
+            over_budget_notification_date: null,
+            notes: null,
+            cost_budget: null,
+            cost_budget_include_expenses: false,
+            hourly_rate: 100,
+            fee: null,
+            client: options.client ?? this.addClient(`${name} Client`),
+        };
+        this.projects.push(project);
+        if (options.managed !== false) this.managedProjectIds.add(project.id);
+
+        this.taskAssignments.set(project.id, (options.tasks ?? ['Development']).map(taskName => ({
+            id: this.nextId++,
+            billable: true,
+            is_active: true,
+            created_at: '2026-01-01T00:00:00Z',
+            updated_at: '2026-01-01T00:00:00Z',
+            hourly_rate: 100,
+            budget: null,
+            task: { id: this.nextId++, name: taskName },
+        })));
+        return project;
+    }
+
+    taskAssignment(project: HarvestProjectFull, taskName: string): HarvestTaskAssignment {
+        const assignment = this.taskAssignments.get(project.id)?.find(candidate => candidate.task.name === taskName);
+        if (!assignment) throw new Error(`${project.name} has no task ${taskName}`);
+        return assignment;
+    }
+
+    addEntry(options: FakeEntryOptions): HarvestTimeEntry {
+        const assignment = this.taskAssignment(options.project, options.task ?? 'Development');
+        return this.createEntry(options.project, assignment, {
+            spent_date: options.spentDate,
+            hours: options.hours ?? 0,
+            notes: options.notes ?? '',
+            is_running: options.isRunning ?? false,
+            billable: options.billable ?? true,
+            ...options.user ? { user: options.user } : {},
+        });
+    }
+
+    async send(request: HarvestRequest): Promise<HarvestResponse> {
+        this.requests.push(request);
+        if (!this.online) throw new Error('net::ERR_INTERNET_DISCONNECTED');
+
+        const url = new URL(request.url);
+        if (url.host === HARVEST_ID_HOST) return this.routeHarvestId(request, url.pathname);
+        if (this.accessToken && request.headers['Authorization'] !== `Bearer ${this.accessToken}`) {
+            return respond(401, { error: 'invalid_token', error_description: 'The access token is invalid' });
+        }
+
+        const path = url.pathname.slice(new URL(API_ROOT).pathname.length);
+        const body = request.body ? JSON.parse(request.body) as Record<string, unknown> : {};
+        return this.route(request.method, path, url.searchParams, body);
+    }
+
+    private route(method: string, path: string, params: URLSearchParams, body: Record<string, unknown>): HarvestResponse {
+        const segments = path.split('/').filter(segment => segment !== '');
+
+        if (method === 'GET' && path === '/users/me') return respond(200, this.user);
+        if (method === 'GET' && path === '/users') {
+            if (!this.seesTeam()) return respond(403, { message: 'You do not have permission to view users' });
+            return respond(200, paginate('users', this.teamMembers(), params));
+        }
+        if (method === 'GET' && path === '/users/me/project_assignments') {
+            return respond(200, paginate('project_assignments', this.projects.map(project => this.projectAssignment(project)), params));
+        }
+        if (method === 'GET' && path === '/reports/project_budget') {
+            if (!this.canSeeBudgetReport) return respond(403, { message: 'You do not have permission to view this report' });
+            return respond(200, paginate('results', this.projects.map(project => this.budgetReport(project)), params));
+        }
+        if (method === 'GET' && path === '/company') return respond(200, this.company);
+        if (method === 'GET' && path === '/projects') {
+            const managed = this.projects.filter(project => this.managedProjectIds.has(project.id));
+            return respond(200, paginate('projects', managed, params));
+        }
+        if (method === 'GET' && segments[0] === 'projects' && segments[2] === 'task_assignments') {
+            const assignments = this.taskAssignments.get(Number(segments[1]));
+            if (!assignments) return notFound();
+            return respond(200, paginate('task_assignments', assignments, params));
+        }
+
+        if (segments[0] !== 'time_entries') return notFound();
+        if (segments.length === 1) {
+            if (method === 'GET') return respond(200, paginate('time_entries', this.listEntries(params), params));
+            if (method === 'POST') return this.postEntry(body);
+        }
+
+        const entry = this.entries.find(candidate => candidate.id === Number(segments[1]));
+        if (!entry) return notFound();
+        const action = segments[2];
+
+        if (method === 'GET' && !action) return respond(200, entry);
+        if (method === 'DELETE' && !action) {
+            this.entries = this.entries.filter(candidate => candidate !== entry);
+            return respond(200, {});
+        }
+        if (method !== 'PATCH') return notFound();
+
+        if (entry.is_locked) {
+            return respond(403, { message: `This time entry is locked: ${entry.locked_reason ?? 'approved'}` });
+        }
+        if (action === 'restart') {
+            if (entry.is_running) return respond(422, { message: 'Time entry is already running' });
+            this.stopRunningEntries();
+            entry.is_running = true;
+            entry.timer_started_at = new Date().toISOString();
+        } else if (action === 'stop') {
+            if (!entry.is_running) return respond(422, { message: 'Time entry is not running' });
+            this.stopEntry(entry);
+        } else if (!action) {
+            Object.assign(entry, body);
+        } else {
+            return notFound();
+        }
+        entry.updated_at = new Date().toISOString();
+        return respond(200, entry);
+    }
+
+    // Hands out new tokens, as a sign-in or a token refresh does, invalidating the old ones
+    issueTokens() {
+        this.tokensIssued++;
+        this.accessToken = `access-token-${this.tokensIssued}`;
+        this.refreshToken = `refresh-token-${this.tokensIssued}`;
+        return { access_token: this.accessToken, refresh_token: this.refreshToken, token_type: 'bearer', expires_in: 14 * 24 * 60 * 60 };
+    }
+
+    private routeHarvestId(request: HarvestRequest, path: string): HarvestResponse {
+        if (request.method === 'POST' && path === '/api/v2/oauth2/token') {
+            const params = new URLSearchParams(request.body ?? '');
+            const valid = params.get('grant_type') === 'authorization_code'
+                ? params.get('code') === this.authorizationCode
+                : params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === this.refreshToken;
+            if (!valid) return respond(400, { error: 'invalid_grant', error_description: 'The provided authorization grant is invalid' });
+            return respond(200, this.issueTokens());
+        }
+        if (request.method === 'GET' && path === '/api/v2/accounts') {
+            if (request.headers['Authorization'] !== `Bearer ${this.accessToken}`) return respond(401, { error: 'invalid_token' });
+            return respond(200, { user: { id: this.user.id, email: this.user.email }, accounts: this.harvestIdAccounts });
+        }
+        return notFound();
+    }
+
+    private projectAssignment(project: HarvestProjectFull): HarvestProjectAssignment {
+        return { id: project.id + 10000, is_active: true, project: { id: project.id, name: project.name, code: project.code }, client: project.client };
+    }
+
+    private budgetReport(project: HarvestProjectFull): HarvestProjectBudgetReport {
+        const byFees = project.budget_by === 'project_cost' || project.budget_by === 'task_fees';
+        const spent = this.entries
+            .filter(entry => entry.project.id === project.id)
+            .reduce((sum, entry) => sum + (byFees ? (entry.billable ? entry.hours * (entry.billable_rate ?? 0) : 0) : entry.hours), 0);
+        return {
+            project_id: project.id,
+            project_name: project.name,
+            client_id: project.client.id,
+            client_name: project.client.name,
+            budget_is_monthly: project.budget_is_monthly,
+            budget_by: project.budget_by,
+            is_active: project.is_active,
+            budget: project.budget,
+            budget_spent: spent,
+            budget_remaining: project.budget === null ? null : project.budget - spent,
+        };
+    }
+
+    private listEntries(params: URLSearchParams): HarvestTimeEntry[] {
+        const from = params.get('from');
+        const to = params.get('to');
+        const isRunning = params.get('is_running');
+        const updatedSince = params.get('updated_since');
+        const projectId = params.get('project_id');
+        const userId = params.get('user_id');
+        // Members only ever see their own time, whatever they ask for
+        const seesTeam = this.seesTeam();
+
+        return this.entries
+            .filter(entry => seesTeam || entry.user.id === this.user.id)
+            .filter(entry => !userId || String(entry.user.id) === userId)
+            .filter(entry => !from || entry.spent_date >= from)
+            .filter(entry => !to || entry.spent_date <= to)
+            .filter(entry => isRunning === null || String(entry.is_running) === isRunning)
+            .filter(entry => !updatedSince || entry.updated_at >= updatedSince)
+            .filter(entry => !projectId || String(entry.project.id) === projectId)
+            // Harvest lists the newest entries first
+            .sort((a, b) => b.spent_date.localeCompare(a.spent_date) || b.id - a.id);
+    }
+
+    private seesTeam(): boolean {
+        return this.user.access_roles.some(role => role === 'administrator' || role === 'manager');
+    }
+
+    // The current user and everyone with time in the account
+    private teamMembers(): HarvestCurrentUser[] {
+        const users = new Map([[this.user.id, this.user]]);
+        for (const { user } of this.entries) {
+            if (users.has(user.id)) continue;
+            const [firstName, ...lastName] = user.name.split(' ');
+            users.set(user.id, { id: user.id, first_name: firstName, last_name: lastName.join(' '), email: '', access_roles: ['member'] });
+        }
+        return [...users.values()];
+    }
+
+    private postEntry(body: Record<string, unknown>): HarvestResponse {
+        const project = this.projects.find(candidate => candidate.id === body.project_id);
+        const assignment = project && this.taskAssignments.get(project.id)?.find(candidate => candidate.task.id === body.task_id);
+        if (!project || !assignment) return respond(422, { message: 'Project or task is not valid' });
+        if (typeof body.spent_date !== 'string') return respond(422, { message: 'Spent date is required' });
+
+        // Without hours or an end time, a new entry is a running timer and stops any other
+        const isRunning = body.hours === undefined && body.ended_time === undefined;
+        if (isRunning) this.stopRunningEntries();
+
+        const entry = this.createEntry(project, assignment, {
+            spent_date: body.spent_date,
+            hours: typeof body.hours === 'number' ? body.hours : 0,
+            notes: typeof body.notes === 'string' ? body.notes : '',
+            is_running: isRunning,
+            billable: assignment.billable,
+            started_time: typeof body.started_time === 'string' ? body.started_time : null,
+            ended_time: typeof body.ended_time === 'string' ? body.ended_time : null,
+            external_reference: (body.external_reference as HarvestTimeEntry['external_reference']) ?? null,
+        });
+        return respond(201, entry);
+    }
+
+    private createEntry(project: HarvestProjectFull, assignment: HarvestTaskAssignment, fields: Partial<HarvestTimeEntry>): HarvestTimeEntry {
+        const now = new Date().toISOString();
+        const { task, ...taskAssignment } = assignment;
+        const entry: HarvestTimeEntry = {
+            id: this.nextId++,
+            spent_date: '',
+            hours: 0,
+            hours_without_timer: 0,
+            rounded_hours: 0,
+            notes: '',
+            is_locked: false,
+            locked_reason: null,
+            approval_status: 'unsubmitted',
+            is_closed: false,
+            is_billed: false,
+            timer_started_at: fields.is_running ? now : null,
+            started_time: null,
+            ended_time: null,
+            is_running: false,
+            billable: true,
+            budgeted: false,
+            billable_rate: assignment.hourly_rate,
+            cost_rate: 50,
+            created_at: now,
+            updated_at: now,
+            user: { id: this.user.id, name: `${this.user.first_name} ${this.user.last_name}` },
+            client: project.client,
+            project: { id: project.id, name: project.name, code: project.code },
+            task,
+            user_assignment: {
+                id: this.nextId++,
+                is_project_manager: this.managedProjectIds.has(project.id),
+                is_active: true,
+                use_default_rates: true,
+                budget: null,
+                created_at: now,
+                updated_at: now,
+                hourly_rate: project.hourly_rate,
+            },
+            task_assignment: taskAssignment,
+            invoice: null,
+            external_reference: null,
+            ...fields,
+        };
+        this.entries.push(entry);
+        return entry;
+    }
+
+    private stopRunningEntries() {
+        this.entries.filter(entry => entry.is_running).forEach(entry => this.stopEntry(entry));
+    }
+
+    private stopEntry(entry: HarvestTimeEntry) {
+        if (entry.timer_started_at) {
+            entry.hours += (Date.now() - Date.parse(entry.timer_started_at)) / (60 * 60 * 1000);
+        }
+        entry.is_running = false;
+        entry.timer_started_at = null;
+    }
+}
+
+function respond(status: number, json: unknown): HarvestResponse {
+    return { status, headers: { 'content-type': 'application/json' }, json };
+}
+
+function notFound(): HarvestResponse {
+    return respond(404, { message: 'Not found' });
+}
+
+function paginate<K extends string, T>(key: K, items: T[], params: URLSearchParams): HarvestPaginatedResponse & Record<K, T[]> {
+    const perPage = Number(params.get('per_page') ?? 100);
+    const page = Number(params.get('page') ?? 1);
+    const totalPages = Math.max(1, Math.ceil(items.length / perPage));
+    const link = (target: number) => `${API_ROOT}/${key}?page=${target}&per_page=${perPage}`;
+    return {
+        [key]: items.slice((page - 1) * perPage, page * perPage),
+        per_page: perPage,
+        total_pages: totalPages,
+        total_entries: items.length,
+        next_page: page < totalPages ? page + 1 : null,
+        previous_page: page > 1 ? page - 1 : null,
+        page,
+        links: {
+            first: link(1),
+            next: page < totalPages ? link(page + 1) : null,
+            previous: page > 1 ? link(page - 1) : null,
+            last: link(totalPages),
+        },
+    } as HarvestPaginatedResponse & Record<K, T[]>;
+}
@@ -0,0 +1,183 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { FilterField, FilterOperator, GroupField, QueryContext, QueryType, ShowColumn, UserScope, parseQuery, parseTimeRange } from '../main';
+
+// Tests run in Europe/London (see run.mjs): clocks went forward on 2026-03-29 and go back on 2026-10-25
+
+function context(today: Date, weekStart: number = 1, noteDate: Date | null = null): QueryContext {
+    return { today, weekStart, sourcePath: 'Projects/Acme.md', noteDate };
+}
+
+function range(source: string, today: Date, weekStart: number = 1, noteDate: Date | null = null) {
+    return parseTimeRange(source.toUpperCase().split(/\s+/), context(today, weekStart, noteDate));
+}
+
+describe('parseTimeRange', () => {
+    // A Wednesday
+    const today = new Date(2026, 9, 14, 15, 30);
+
+    it('resolves single days', () => {
+        assert.deepEqual(range('TODAY', today), { from: '2026-10-14', to: '2026-10-14' });
+        assert.deepEqual(range('YESTERDAY', new Date(2026, 2, 1)), { from: '2026-02-28', to: '2026-02-28' });
+        assert.deepEqual(range('DAY OF 2024-02-29', today), { from: '2024-02-29', to: '2024-02-29' });
+    });
+
+    it('starts weeks on the configured day', () => {
+        assert.deepEqual(range('WEEK', today), { from: '2026-10-12', to: '2026-10-18' });
+        assert.deepEqual(range('WEEK', today, 0), { from: '2026-10-11', to: '2026-10-17' });
+        assert.deepEqual(range('WEEK', today, 6), { from: '2026-10-10', to: '2026-10-16' });
+    });
+
+    it('handles today being on a week boundary', () => {
+        const sunday = new Date(2026, 9, 18, 23, 59);
+        assert.deepEqual(range('WEEK', sunday), { from: '2026-10-12', to: '2026-10-18' });
+        assert.deepEqual(range('WEEK', sunday, 0), { from: '2026-10-18', to: '2026-10-24' });
+
+        const monday = new Date(2026, 9, 19, 0, 0);
+        assert.deepEqual(range('WEEK', monday), { from: '2026-10-19', to: '2026-10-25' });
+        assert.deepEqual(range('LAST WEEK', monday), { from: '2026-10-12', to: '2026-10-18' });
+    });
+
+    it('resolves calendar periods', () => {
+        assert.deepEqual(range('MONTH', today), { from: '2026-10-01', to: '2026-10-31' });
+        assert.deepEqual(range('QUARTER', today), { from: '2026-10-01', to: '2026-12-31' });
+        assert.deepEqual(range('YEAR', today), { from: '2026-01-01', to: '2026-12-31' });
+        assert.deepEqual(range('MONTH OF 2024-02-10', today), { from: '2024-02-01', to: '2024-02-29' });
+    });
+
+    it('steps back whole periods for LAST', () => {
+        assert.deepEqual(range('LAST MONTH', today), { from: '2026-09-01', to: '2026-09-30' });
+        assert.deepEqual(range('LAST MONTH', new Date(2026, 0, 15)), { from: '2025-12-01', to: '2025-12-31' });
+        // 31 March minus a month is clamped to February rather than rolling over into March
+        assert.deepEqual(range('LAST MONTH', new Date(2026, 2, 31)), { from: '2026-02-01', to: '2026-02-28' });
+        assert.deepEqual(range('LAST QUARTER', new Date(2026, 1, 10)), { from: '2025-10-01', to: '2025-12-31' });
+        assert.deepEqual(range('LAST YEAR', today), { from: '2025-01-01', to: '2025-12-31' });
+    });
+
+    it('counts PAST ranges back from today inclusive', () => {
+        assert.deepEqual(range('PAST 1 DAYS', today), { from: '2026-10-14', to: '2026-10-14' });
+        assert.deepEqual(range('PAST 7 DAYS', today), { from: '2026-10-08', to: '2026-10-14' });
+        assert.deepEqual(range('PAST 2 WEEKS', today), { from: '2026-10-01', to: '2026-10-14' });
+        assert.deepEqual(range('PAST 1 MONTHS', new Date(2026, 2, 31)), { from: '2026-03-01', to: '2026-03-31' });
+    });
+
+    it('parses FROM...TO dates as local dates', () => {
+        assert.deepEqual(range('FROM 2026-01-01 TO 2026-01-31', today), { from: '2026-01-01', to: '2026-01-31' });
+        assert.throws(() => range('FROM 2026-02-30 TO 2026-03-01', today), /Invalid date format/);
+        assert.throws(() => range('FROM 2026-01-01 2026-01-31', today), /Invalid FROM...TO format/);
+    });
+
+    it('resolves {{date}} to the note date', () => {
+        const noteDate = new Date(2026, 4, 20);
+        assert.deepEqual(range('WEEK OF {{date}}', today, 1, noteDate), { from: '2026-05-18', to: '2026-05-24' });
+        assert.throws(() => range('WEEK OF {{date}}', today), /This note has no date/);
+    });
+
+    it('is unaffected by the clocks going forward', () => {
+        // Sunday 29 March 2026 is only 23 hours long
+        const dstStart = new Date(2026, 2, 29, 0, 30);
+        assert.deepEqual(range('WEEK', dstStart), { from: '2026-03-23', to: '2026-03-29' });
+        assert.deepEqual(range('TODAY', dstStart), { from: '2026-03-29', to: '2026-03-29' });
+        assert.deepEqual(range('PAST 3 DAYS', new Date(2026, 2, 30, 0, 30)), { from: '2026-03-28', to: '2026-03-30' });
+        assert.deepEqual(range('YESTERDAY', new Date(2026, 2, 30, 0, 30)), { from: '2026-03-29', to: '2026-03-29' });
+    });
+
+    it('is unaffected by the clocks going back', () => {
+        // Sunday 25 October 2026 is 25 hours long
+        const dstEnd = new Date(2026, 9, 25, 23, 30);
+        assert.deepEqual(range('WEEK', dstEnd), { from: '2026-10-19', to: '2026-10-25' });
+        assert.deepEqual(range('PAST 7 DAYS', new Date(2026, 9, 26, 0, 15)), { from: '2026-10-20', to: '2026-10-26' });
+        assert.deepEqual(range('WEEK OF 2026-10-25', today, 0), { from: '2026-10-25', to: '2026-10-31' });
+    });
+
+    it('rejects unknown ranges', () => {
+        assert.throws(() => range('FORTNIGHT', today), /Unknown time range specifier/);
+        assert.throws(() => range('LAST DECADE', today), /Invalid LAST format/);
+        assert.throws(() => range('PAST 0 DAYS', today), /Invalid PAST format/);
+    });
+});
+
+describe('parseQuery', () => {
+    const today = new Date(2026, 9, 14);
+
+    it('parses the query type and range case-insensitively', () => {
+        const query = parseQuery('list past 7 days', context(today));
+        assert.equal(query.type, QueryType.LIST);
+        assert.equal(query.from, '2026-10-08');
+        assert.equal(query.to, '2026-10-14');
+        assert.deepEqual(query.filters, []);
+        assert.deepEqual(query.show, []);
+    });
+
+    it('parses WHERE conditions', () => {
+        const query = parseQuery('LIST WEEK WHERE project = "Acme Redesign" AND billable != false AND notes CONTAINS review AND note = this', context(today));
+        assert.deepEqual(query.filters, [
+            { field: FilterField.PROJECT, operator: FilterOperator.EQUALS, value: 'Acme Redesign' },
+            { field: FilterField.BILLABLE, operator: FilterOperator.NOT_EQUALS, value: false },
+            { field: FilterField.NOTES, operator: FilterOperator.CONTAINS, value: 'review' },
+            { field: FilterField.NOTE, operator: FilterOperator.EQUALS, value: 'Projects/Acme.md' },
+        ]);
+    });
+
+    it('groups summaries by project unless told otherwise', () => {
+        assert.deepEqual(parseQuery('SUMMARY MONTH', context(today)).groupBy, [GroupField.PROJECT]);
+        assert.deepEqual(parseQuery('SUMMARY MONTH GROUP BY client, task', context(today)).groupBy, [GroupField.CLIENT, GroupField.TASK]);
+    });
+
+    it('parses SHOW columns', () => {
+        const query = parseQuery('SUMMARY WEEK WHERE billable = true GROUP BY day SHOW billable, amount', context(today));
+        assert.deepEqual(query.groupBy, [GroupField.DAY]);
+        assert.deepEqual(query.show, [ShowColumn.BILLABLE, ShowColumn.AMOUNT]);
+    });
+
+    it('parses TIMESHEET grids of up to 31 days', () => {
+        const query = parseQuery('TIMESHEET WEEK WHERE client = "Acme Corp"', context(today));
+        assert.equal(query.type, QueryType.TIMESHEET);
+        assert.equal(query.from, '2026-10-12');
+        assert.equal(query.to, '2026-10-18');
+        assert.equal(parseQuery('TIMESHEET MONTH', context(today)).to, '2026-10-31');
+        assert.throws(() => parseQuery('TIMESHEET QUARTER', context(today)), /at most 31 days/);
+        assert.throws(() => parseQuery('TIMESHEET WEEK SHOW amount', context(today)), /SHOW is not supported/);
+        assert.throws(() => parseQuery('TIMESHEET WEEK GROUP BY task', context(today)), /only supported for SUMMARY/);
+    });
+
+    it('parses BUDGET queries without a time range', () => {
+        const query = parseQuery('BUDGET WHERE client = "Acme Corp"', context(today));
+        assert.equal(query.type, QueryType.BUDGET);
+        assert.equal(query.to, '2026-10-14');
+        assert.equal(parseQuery('budget', context(today)).filters.length, 0);
+        assert.throws(() => parseQuery('BUDGET MONTH', context(today)), /don't take a time range/);
+        assert.throws(() => parseQuery('BUDGET WHERE billable = true', context(today)), /only be filtered by PROJECT or CLIENT/);
+    });
+
+    it('parses USER scopes', () => {
+        assert.deepEqual(parseQuery('LIST WEEK', context(today)).user, { scope: UserScope.ME, name: null });
+        assert.deepEqual(parseQuery('LIST WEEK USER all WHERE billable = true', context(today)).user, { scope: UserScope.ALL, name: null });
+        assert.deepEqual(parseQuery('SUMMARY MONTH USER "Jane Doe" GROUP BY user', context(today)), {
+            ...parseQuery('SUMMARY MONTH', context(today)),
+            user: { scope: UserScope.NAMED, name: 'Jane Doe' },
+            groupBy: [GroupField.USER],
+        });
+        assert.throws(() => parseQuery('TIMESHEET WEEK USER all', context(today)), /only supported for LIST and SUMMARY/);
+        assert.throws(() => parseQuery('LIST WEEK USER = me', context(today)), /Expected me, all or a name/);
+    });
+
+    it('parses ACCOUNT clauses', () => {
+        assert.equal(parseQuery('LIST WEEK', context(today)).account, null);
+        assert.equal(parseQuery('SUMMARY WEEK ACCOUNT "Client B" USER all GROUP BY user', context(today)).account, 'Client B');
+        assert.equal(parseQuery('LIST WEEK ACCOUNT contracting WHERE billable = true', context(today)).account, 'contracting');
+        assert.throws(() => parseQuery('BUDGET ACCOUNT "Client B"', context(today)), /only supported for LIST and SUMMARY/);
+        assert.throws(() => parseQuery('LIST WEEK ACCOUNT = x', context(today)), /Expected an account name/);
+    });
+
+    it('rejects invalid queries', () => {
+        assert.throws(() => parseQuery('', context(today)), /too short/);
+        assert.throws(() => parseQuery('TABLE WEEK', context(today)), /Invalid query type/);
+        assert.throws(() => parseQuery('LIST', context(today)), /too short/);
+        assert.throws(() => parseQuery('LIST WEEK GROUP BY task', context(today)), /only supported for SUMMARY/);
+        assert.throws(() => parseQuery('SUMMARY WEEK SHOW notes', context(today)), /only be shown in LIST/);
+        assert.throws(() => parseQuery('LIST WEEK WHERE colour = red', context(today)), /Unknown filter field/);
+        assert.throws(() => parseQuery('LIST WEEK WHERE billable CONTAINS true', context(today)), /BILLABLE only supports/);
+        assert.throws(() => parseQuery('LIST WEEK SHOW notes extra', context(today)), /Unexpected/);
+    });
+});
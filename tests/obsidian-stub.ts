@@ -0,0 +1,76 @@
+// Stands in for the 'obsidian' module, which only ships type declarations, when main.ts is bundled for tests.
+// Only what the plugin touches outside of views and modals is implemented.
+
+export class Notice {
+    static messages: string[] = [];
+
+    constructor(message: string) {
+        Notice.messages.push(message);
+    }
+
+    setMessage() {}
+    hide() {}
+}
+
+export class Plugin {
+    private data: unknown = null;
+
+    constructor(public app: unknown, public manifest: unknown) {}
+
+    async loadData(): Promise<unknown> {
+        return this.data;
+    }
+
+    async saveData(data: unknown) {
+        this.data = data;
+    }
+
+    addCommand() {}
+    addSettingTab() {}
+    addStatusBarItem() {}
+    registerView() {}
+    registerDomEvent() {}
+    registerMarkdownCodeBlockProcessor() {}
+}
+
+export class TAbstractFile {
+    path = '';
+    name = '';
+    parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/[\\/]+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+// Obsidian bundles moment; the tests use the copy installed alongside its type definitions
+export const moment = require('moment') as typeof import('moment');
+
+export async function requestUrl(): Promise<never> {
+    throw new Error('Tests must not reach the network. Set plugin.transport to a FakeHarvest.');
+}
+
+// Runs immediately: the tests don't exercise editor events
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown): (...args: T) => void {
+    return (...args: T) => void callback(...args);
+}
+
+// Base classes for the plugin's views, modals and settings tab, which the tests don't construct
+export class Component {}
+export class ItemView extends Component {}
+export class Modal {}
+export class FuzzySuggestModal {}
+export class PluginSettingTab {}
+export class Setting {}
+export class SecretComponent {}
+export class Menu {}
+export class WorkspaceLeaf {}
@@ -0,0 +1,806 @@
+import { beforeEach, describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import type { App, PluginManifest } from 'obsidian';
+import { TFile } from 'obsidian';
+import HarvestPlugin, { DEFAULT_SETTINGS, HarvestProfile, HarvestProjectFull, HarvestTimeEntry, buildTimesheetRows, formatDate, parseQuery, parseTaskLine, parseTimeLogs, profileForPath, wrapSnapshot } from '../main';
+import { FakeHarvest } from './fake-harvest';
+// The stub Obsidian is bundled in place of, which records notices
+import { Notice } from './obsidian-stub';
+
+function createPlugin(harvest: FakeHarvest, notes: Map<string, string> = new Map()): HarvestPlugin {
+    const files = new Map<string, string>();
+    const secrets = new Map<string, string>();
+    const app = {
+        secretStorage: { getSecret: (id: string) => secrets.get(id) ?? null, setSecret: (id: string, secret: string) => void secrets.set(id, secret) },
+        vault: {
+            getName: () => 'Work',
+            getAbstractFileByPath: () => null,
+            getFileByPath: (path: string) => notes.has(path) ? note(path) : null,
+            read: async (file: TFile) => notes.get(file.path) ?? '',
+            process: async (file: TFile, update: (content: string) => string) => {
+                notes.set(file.path, update(notes.get(file.path) ?? ''));
+            },
+            adapter: {
+                exists: async (path: string) => files.has(path),
+                read: async (path: string) => files.get(path) ?? '',
+                write: async (path: string, data: string) => void files.set(path, data),
+            },
+        },
+        workspace: { getLeavesOfType: () => [] },
+        metadataCache: { getFileCache: () => null },
+    };
+    const manifest = { id: 'harvest', dir: '.obsidian/plugins/harvest' };
+
+    const plugin = new HarvestPlugin(app as unknown as App, manifest as PluginManifest);
+    plugin.settings = {
+        ...DEFAULT_SETTINGS,
+        profiles: [{ name: 'Default', personalAccessToken: 'token', accountId: '12345', folders: [] }],
+        offlineQueue: [],
+        folderProjectCache: {},
+    };
+    plugin.statusBarItemEl = { setText: () => {} } as unknown as HTMLElement;
+    plugin.transport = harvest;
+    plugin.userId = harvest.user.id;
+    return plugin;
+}
+
+function note(path: string): TFile {
+    const name = path.split('/').pop() ?? path;
+    return Object.assign(new TFile(), { path, name, basename: name.replace(/\.md$/, '') });
+}
+
+function requestsMatching(harvest: FakeHarvest, method: string, path: RegExp): number {
+    return harvest.requests.filter(request => request.method === method && path.test(new URL(request.url).pathname)).length;
+}
+
+describe('startTimer', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    let acme: HarvestProjectFull;
+    const today = formatDate(new Date());
+    const yesterday = formatDate(new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        acme = harvest.addProject('Acme Redesign', { tasks: ['Design', 'Development'] });
+        plugin = createPlugin(harvest);
+    });
+
+    it("restarts today's entry for the same project and task", async () => {
+        const existing = harvest.addEntry({ project: acme, task: 'Design', spentDate: today, hours: 1 });
+
+        await plugin.startTimer(acme.id, harvest.taskAssignment(acme, 'Design').task.id, null);
+
+        assert.equal(harvest.entries.length, 1);
+        assert.equal(existing.is_running, true);
+        assert.equal(requestsMatching(harvest, 'PATCH', /\/restart$/), 1);
+        assert.equal(requestsMatching(harvest, 'POST', /\/time_entries$/), 0);
+    });
+
+    it('creates a new entry when only other tasks or days have one', async () => {
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: yesterday, hours: 1 });
+        const running = harvest.addEntry({ project: acme, task: 'Development', spentDate: today, isRunning: true });
+
+        await plugin.startTimer(acme.id, harvest.taskAssignment(acme, 'Design').task.id, null);
+
+        assert.equal(harvest.entries.length, 3);
+        const created = harvest.entries[2];
+        assert.equal(created.spent_date, today);
+        assert.equal(created.task.name, 'Design');
+        assert.equal(created.is_running, true);
+        // Harvest stops the running timer when another starts
+        assert.equal(running.is_running, false);
+    });
+
+    it('only restarts an entry linked to the same note when linking notes', async () => {
+        plugin.settings.noteLinkMode = 'notes';
+        const designTaskId = harvest.taskAssignment(acme, 'Design').task.id;
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: today, hours: 1, notes: 'Other obsidian://open?vault=Work&file=Other.md' });
+
+        await plugin.startTimer(acme.id, designTaskId, note('Tickets/ABC-123.md'));
+        assert.equal(harvest.entries.length, 2);
+        const linked = harvest.entries[1];
+        assert.equal(linked.notes, 'ABC-123 obsidian://open?vault=Work&file=Tickets%2FABC-123.md');
+
+        await plugin.stopTimer(linked.id);
+        await plugin.startTimer(acme.id, designTaskId, note('Tickets/ABC-123.md'));
+        assert.equal(harvest.entries.length, 2);
+        assert.equal(linked.is_running, true);
+    });
+});
+
+describe('replaying the offline queue', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    let acme: HarvestProjectFull;
+    const today = formatDate(new Date());
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        acme = harvest.addProject('Acme Redesign', { tasks: ['Design'] });
+        plugin = createPlugin(harvest);
+        const entry = { projectId: acme.id, taskId: harvest.taskAssignment(acme, 'Design').task.id, spentDate: today, hours: 1, notes: '' };
+        plugin.settings.offlineQueue = [{ type: 'log', at: Date.now(), entry }];
+    });
+
+    it('waits quietly for the connection to return', async () => {
+        harvest.online = false;
+        plugin.isOffline = true;
+        const notices = Notice.messages.length;
+
+        await plugin.updateRunningTimer();
+        await plugin.updateRunningTimer();
+        assert.equal(Notice.messages.length, notices);
+        assert.equal(plugin.settings.offlineQueue.length, 1);
+
+        // The first response starts the replay, without the poll waiting for it
+        harvest.online = true;
+        await plugin.updateRunningTimer();
+        while (plugin.isReplayingQueue) await new Promise(resolve => setTimeout(resolve, 0));
+        assert.equal(plugin.settings.offlineQueue.length, 0);
+        assert.equal(harvest.entries.length, 1);
+    });
+
+    it('reports actions Harvest rejects', async () => {
+        plugin.settings.offlineQueue = [{ type: 'log', at: Date.now(), entry: { projectId: 999, taskId: 999, spentDate: today, hours: 1, notes: '' } }];
+
+        await plugin.replayOfflineQueue();
+        assert.ok(Notice.messages.some(message => message.startsWith(`Harvest rejected time logged offline for ${today}: `)));
+        assert.equal(plugin.settings.offlineQueue.length, 0);
+    });
+});
+
+describe('task line timers', () => {
+    it('finds tags and inline fields on task lines', () => {
+        assert.deepEqual(parseTaskLine('- [ ] Fix login bug #harvest/acme/dev'), { project: 'acme', task: 'dev', notes: 'Fix login bug', checked: false });
+        assert.deepEqual(parseTaskLine('  * [x] Review #harvest/AR #urgent'), { project: 'AR', task: null, notes: 'Review #urgent', checked: true });
+        assert.deepEqual(parseTaskLine('1. Call the client [harvest:: Acme Redesign / Project Management] today'), {
+            project: 'Acme Redesign', task: 'Project Management', notes: 'Call the client today', checked: false,
+        });
+        assert.equal(parseTaskLine('- [ ] No timer here #harvesting'), null);
+    });
+
+    it('starts a timer with the line as notes, resolving short references', async () => {
+        const harvest = new FakeHarvest();
+        harvest.addProject('Acme Redesign', { tasks: ['Design', 'Development'] });
+        harvest.addProject('Beta Support');
+        const plugin = createPlugin(harvest);
+
+        await plugin.startTimerFromLine('- [ ] Fix login bug #harvest/acme/dev', null);
+
+        const running = harvest.entries.filter(entry => entry.is_running);
+        assert.deepEqual(running.map(entry => [entry.project.name, entry.task.name, entry.notes]), [['Acme Redesign', 'Development', 'Fix login bug']]);
+    });
+
+    it('restarts only the entry started from the same line', async () => {
+        const harvest = new FakeHarvest();
+        const acme = harvest.addProject('Acme Redesign', { tasks: ['Development'] });
+        const today = formatDate(new Date());
+        const other = harvest.addEntry({ project: acme, spentDate: today, hours: 1, notes: 'Write tests' });
+        const same = harvest.addEntry({ project: acme, spentDate: today, hours: 1, notes: 'Fix login bug' });
+        const plugin = createPlugin(harvest);
+
+        await plugin.startTimerFromLine('- [ ] Fix login bug [harvest:: Acme Redesign/Development]', null);
+
+        assert.equal(same.is_running, true);
+        assert.equal(other.is_running, false);
+        assert.equal(harvest.entries.length, 2);
+    });
+});
+
+describe('importing time logs', () => {
+    it('finds list items and table rows', () => {
+        const logs = parseTimeLogs([
+            '# Standup',
+            '- 09:00–10:30 Acme / Design: wireframes',
+            '- [x] 1:15pm - 2pm Beta/dev',
+            '* 45m Internal / Admin: expenses: October',
+            '- Not a log / at all',
+            '',
+            '| Date | Project | Task | Hours | Notes |',
+            '| --- | --- | --- | ---: | --- |',
+            '| 2026-10-13 | Acme | Design | 1.5 | Review \\| v2 |',
+            '| **Total** |  |  | **1.5** |  |',
+            '',
+            '%% harvest-log %%',
+            '| Start | End | Project | Task | Hours | Notes |',
+            '| --- | --- | --- | --- | ---: | --- |',
+            '| 9:00am | 10:30am | Acme Redesign | Design | 1:30 | wireframes |',
+            '%% /harvest-log %%',
+        ].join('\n'));
+
+        assert.deepEqual(logs, [
+            { line: 1, date: null, start: 540, end: 630, hours: 1.5, project: 'Acme', task: 'Design', notes: 'wireframes' },
+            { line: 2, date: null, start: 795, end: 840, hours: 0.75, project: 'Beta', task: 'dev', notes: '' },
+            { line: 3, date: null, start: null, end: null, hours: 0.75, project: 'Internal', task: 'Admin', notes: 'expenses: October' },
+            { line: 8, date: '2026-10-13', start: null, end: null, hours: 1.5, project: 'Acme', task: 'Design', notes: 'Review | v2' },
+        ]);
+    });
+
+    it('resolves names and flags unknown names and duplicates', async () => {
+        const harvest = new FakeHarvest();
+        const acme = harvest.addProject('Acme Redesign', { tasks: ['Design', 'Development'] });
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-14', hours: 1.5 });
+        const plugin = createPlugin(harvest);
+
+        const imports = await plugin.resolveTimeLogs(parseTimeLogs([
+            '- 09:00–10:30 Acme / Design: wireframes',
+            '- 1h Acme / Dev: login bug',
+            '- 1h Acme / Support',
+            '- 1h Beta / Development',
+        ].join('\n')), '2026-10-14', false);
+
+        assert.deepEqual(imports?.map(item => [item.title, item.problem, item.duplicate]), [
+            ['Acme Redesign › Design', null, true],
+            ['Acme Redesign › Development', null, false],
+            ['Acme / Support', 'No task found matching "Support" in Acme Redesign.', false],
+            ['Beta / Development', 'No project found matching "Beta".', false],
+        ]);
+
+        await plugin.importTimeEntries([imports?.[1].entry].filter(entry => !!entry));
+        assert.deepEqual(harvest.entries.map(entry => [entry.spent_date, entry.task.name, entry.hours, entry.notes]), [
+            ['2026-10-14', 'Design', 1.5, ''],
+            ['2026-10-14', 'Development', 1, 'login bug'],
+        ]);
+    });
+
+    it('needs start and end times on accounts that track them', async () => {
+        const harvest = new FakeHarvest();
+        harvest.addProject('Acme Redesign', { tasks: ['Design'] });
+        const plugin = createPlugin(harvest);
+
+        const imports = await plugin.resolveTimeLogs(parseTimeLogs('- 9am-10:30am Acme / Design\n- 1:30 Acme / Design'), '2026-10-14', true);
+        assert.deepEqual([imports?.[0].entry?.startedTime, imports?.[0].entry?.endedTime, imports?.[0].entry?.hours], ['9:00am', '10:30am', undefined]);
+        assert.match(imports?.[1].problem ?? '', /start and end times/);
+    });
+});
+
+describe('fetchAllTrackableProjects', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        plugin = createPlugin(harvest);
+    });
+
+    it('merges managed projects with projects from recent time entries', async () => {
+        const zeta = harvest.addProject('Zeta');
+        const acme = harvest.addProject('Acme Redesign');
+        const beta = harvest.addProject('Beta Support', { managed: false });
+        const archived = harvest.addProject('Old Work', { managed: false });
+        const today = formatDate(new Date());
+        harvest.addEntry({ project: acme, spentDate: today, hours: 1 });
+        harvest.addEntry({ project: beta, spentDate: today, hours: 2 });
+        harvest.addEntry({ project: beta, spentDate: today, hours: 3 });
+        harvest.addEntry({ project: archived, spentDate: formatDate(new Date(Date.now() - 45 * 24 * 60 * 60 * 1000)), hours: 1 });
+
+        const projects = await plugin.fetchAllTrackableProjects();
+
+        assert.deepEqual(projects.map(project => project.id), [acme.id, beta.id, zeta.id]);
+        // Managed projects keep their full details rather than the summary embedded in time entries
+        assert.equal(projects[0].is_active, true);
+        assert.equal(projects[1].is_active, undefined);
+    });
+
+    it('fetches every page', async () => {
+        plugin.settings.pageSize = 2;
+        for (let index = 0; index < 5; index++) harvest.addProject(`Project ${index}`);
+
+        const projects = await plugin.fetchAllTrackableProjects();
+
+        assert.equal(projects.length, 5);
+        assert.equal(requestsMatching(harvest, 'GET', /\/projects$/), 3);
+    });
+
+    it('serves later calls from the cache unless forced', async () => {
+        harvest.addProject('Acme Redesign');
+        await plugin.fetchAllTrackableProjects();
+        harvest.addProject('Beta Support');
+
+        assert.equal((await plugin.fetchAllTrackableProjects()).length, 1);
+        assert.equal((await plugin.fetchAllTrackableProjects(true)).length, 2);
+    });
+});
+
+describe('getTaskAssignments', () => {
+    it('can look tasks up without a notice when Harvest is unreachable', async () => {
+        const harvest = new FakeHarvest();
+        const acme = harvest.addProject('Acme Redesign');
+        const plugin = createPlugin(harvest);
+        harvest.online = false;
+        const notices = Notice.messages.length;
+
+        assert.equal(await plugin.getTaskAssignments({ ...acme, task_assignments: undefined }, true), null);
+        assert.equal(Notice.messages.length, notices);
+    });
+});
+
+describe('refreshSnapshots', () => {
+    it('regenerates frozen snapshots from their kept query and period', async () => {
+        const harvest = new FakeHarvest();
+        const acme = harvest.addProject('Acme Redesign', { tasks: ['Design'] });
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-09-10', hours: 2 });
+
+        const source = 'SUMMARY LAST MONTH';
+        const query = parseQuery(source, { today: new Date(2026, 9, 5), weekStart: 1, sourcePath: 'Audit.md', noteDate: null });
+        const notes = new Map([['Audit.md', `# Audit\n${wrapSnapshot('> **Total hours: 0.00**', source, query)}\nSigned off`]]);
+        const plugin = createPlugin(harvest, notes);
+
+        await plugin.refreshSnapshots(note('Audit.md'));
+
+        const content = notes.get('Audit.md') ?? '';
+        // Still September, although LAST MONTH has moved on since it was frozen
+        assert.match(content, /^%% harvest-snapshot 2026-09-01 2026-09-30$/m);
+        assert.match(content, /Total hours: 2\.00/);
+        assert.match(content, /- Acme Redesign: 2\.00 hours/);
+        assert.ok(content.startsWith('# Audit\n'));
+        assert.ok(content.endsWith('%% /harvest-snapshot %%\nSigned off'));
+    });
+
+    it('finds each snapshot again after edits made while fetching, and keeps its query', async () => {
+        const harvest = new FakeHarvest();
+        const acme = harvest.addProject('Acme Redesign', { tasks: ['Design'] });
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-08-10', hours: 3 });
+
+        const context = { today: new Date(2026, 9, 5), weekStart: 1, sourcePath: 'Audit.md', noteDate: null };
+        const september = wrapSnapshot('> **Total hours: 0.00**', 'SUMMARY LAST MONTH', parseQuery('SUMMARY LAST MONTH', context));
+        const august = wrapSnapshot('> **Total hours: 0.00**', 'SUMMARY FROM 2026-08-01 TO 2026-08-31',
+            parseQuery('SUMMARY FROM 2026-08-01 TO 2026-08-31', context));
+        const notes = new Map([['Audit.md', `${september}\n${august}`]]);
+        const plugin = createPlugin(harvest, notes);
+        plugin.settings.freezeKeepQuery = false;
+        // The September snapshot is deleted while the entries are being fetched
+        plugin.transport = {
+            send: async request => {
+                notes.set('Audit.md', august);
+                return harvest.send(request);
+            },
+        };
+
+        await plugin.refreshSnapshots(note('Audit.md'));
+
+        const content = notes.get('Audit.md') ?? '';
+        assert.ok(content.startsWith('%% harvest-snapshot 2026-08-01 2026-08-31\nSUMMARY FROM 2026-08-01 TO 2026-08-31\n%%\n'));
+        assert.match(content, /Total hours: 3\.00/);
+        assert.doesNotMatch(content, /2026-09-01/);
+    });
+});
+
+describe('setTimesheetHours', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    let acme: HarvestProjectFull;
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        plugin = createPlugin(harvest);
+        acme = harvest.addProject('Acme Redesign', { tasks: ['Design'] });
+    });
+
+    function row() {
+        return buildTimesheetRows(harvest.entries.map(entry => ({ ...entry })))[0];
+    }
+
+    it('creates an entry in an empty cell', async () => {
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-12', hours: 1 });
+
+        assert.equal(await plugin.setTimesheetHours(row(), '2026-10-13', 2.5), true);
+
+        const created = harvest.entries.find(entry => entry.spent_date === '2026-10-13');
+        assert.equal(created?.hours, 2.5);
+        assert.equal(created?.task.name, 'Design');
+    });
+
+    it("takes the difference up in the day's last entry", async () => {
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-12', hours: 1 });
+        const last = harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-12', hours: 2 });
+
+        assert.equal(await plugin.setTimesheetHours(row(), '2026-10-12', 2.5), true);
+        assert.equal(last.hours, 1.5);
+
+        assert.equal(await plugin.setTimesheetHours(row(), '2026-10-12', 0.5), false);
+        assert.equal(last.hours, 1.5);
+    });
+
+    it('deletes a cleared entry unless it has notes', async () => {
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-12', hours: 1 });
+        const noted = harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-13', hours: 1, notes: 'Review' });
+
+        assert.equal(await plugin.setTimesheetHours(row(), '2026-10-12', 0), true);
+        assert.equal(await plugin.setTimesheetHours(row(), '2026-10-13', 0), true);
+
+        assert.deepEqual(harvest.entries, [noted]);
+        assert.equal(noted.hours, 0);
+    });
+});
+
+describe('getProjectBudgets', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    const query = parseQuery('BUDGET', { today: new Date(2026, 9, 14), weekStart: 1, sourcePath: 'Dashboard.md', noteDate: null });
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        plugin = createPlugin(harvest);
+        const acme = harvest.addProject('Acme Redesign', { tasks: ['Design'] });
+        Object.assign(acme, { budget: 10, budget_by: 'project', notify_when_over_budget: true, over_budget_notification_percentage: 75 });
+        const support = harvest.addProject('Beta Support', { managed: false });
+        Object.assign(support, { budget: 1000, budget_by: 'project_cost' });
+        harvest.addProject('Internal');
+
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-12', hours: 8 });
+        harvest.addEntry({ project: support, spentDate: '2026-10-13', hours: 2 });
+    });
+
+    it('reads spend from the project budget report', async () => {
+        const budgets = await plugin.getProjectBudgets(query);
+
+        assert.deepEqual(budgets.map(budget => [budget.project.name, budget.isMoney, budget.budget, budget.spent, budget.notifyPercentage]), [
+            ['Acme Redesign', false, 10, 8, 75],
+            ['Beta Support', true, 1000, 200, null],
+        ]);
+        assert.equal(requestsMatching(harvest, 'GET', /\/time_entries$/), 0);
+    });
+
+    it("adds up managed projects' entries when the report isn't available", async () => {
+        harvest.canSeeBudgetReport = false;
+
+        const budgets = await plugin.getProjectBudgets(query);
+
+        // Beta Support isn't managed, so its budget can't be seen at all
+        assert.deepEqual(budgets.map(budget => [budget.project.name, budget.spent]), [['Acme Redesign', 8]]);
+    });
+
+    it('filters by project and client', async () => {
+        const filtered = parseQuery('BUDGET WHERE project != "Acme Redesign"', { today: new Date(2026, 9, 14), weekStart: 1, sourcePath: 'Dashboard.md', noteDate: null });
+        assert.deepEqual((await plugin.getProjectBudgets(filtered)).map(budget => budget.project.name), ['Beta Support']);
+    });
+
+    it("doesn't match projects without a code against an empty project name", async () => {
+        const context = { today: new Date(2026, 9, 14), weekStart: 1, sourcePath: 'Dashboard.md', noteDate: null };
+        assert.deepEqual(await plugin.getProjectBudgets(parseQuery('BUDGET WHERE project = ""', context)), []);
+        assert.deepEqual((await plugin.getProjectBudgets(parseQuery('BUDGET WHERE project != ""', context))).map(budget => budget.project.name),
+            ['Acme Redesign', 'Beta Support']);
+    });
+});
+
+describe('team reports', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    const context = { today: new Date(2026, 9, 14), weekStart: 1, sourcePath: 'Team review.md', noteDate: null };
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        plugin = createPlugin(harvest);
+        const acme = harvest.addProject('Acme Redesign');
+        harvest.addEntry({ project: acme, spentDate: '2026-10-13', hours: 2 });
+        harvest.addEntry({ project: acme, spentDate: '2026-10-12', hours: 3, user: { id: 2002, name: 'Jane Doe' } });
+        harvest.addEntry({ project: acme, spentDate: '2026-10-14', hours: 1, user: { id: 2003, name: 'Sam Lee' } });
+    });
+
+    it("reports on everyone's time, or one person's, for managers", async () => {
+        harvest.user.access_roles = ['manager', 'member'];
+        plugin.accessRoles = harvest.user.access_roles;
+
+        const all = await plugin.getTimeEntries(parseQuery('LIST WEEK USER all', context));
+        assert.deepEqual(all.entries.map(entry => entry.user.name), ['Jane Doe', 'Test User', 'Sam Lee']);
+
+        const jane = await plugin.getTimeEntries(parseQuery('LIST WEEK USER "jane doe"', context));
+        assert.deepEqual(jane.entries.map(entry => entry.hours), [3]);
+    });
+
+    it('asks Harvest for only the named user\'s time', async () => {
+        harvest.user.access_roles = ['manager', 'member'];
+        plugin.accessRoles = harvest.user.access_roles;
+        const entryRequests = () => harvest.requests.filter(request => new URL(request.url).pathname.endsWith('/time_entries'));
+
+        await plugin.getTimeEntries(parseQuery('LIST WEEK USER "Sam Lee"', context));
+        await plugin.getTimeEntries(parseQuery('LIST WEEK USER 2002', context));
+        assert.deepEqual(entryRequests().map(request => new URL(request.url).searchParams.get('user_id')), ['2003', '2002']);
+
+        await assert.rejects(plugin.getTimeEntries(parseQuery('LIST WEEK USER "Nobody"', context)), /no Harvest user named "Nobody"/);
+        assert.equal(entryRequests().length, 2);
+    });
+
+    it('lets Harvest apply WHERE filters it can resolve to an ID', async () => {
+        harvest.user.access_roles = ['manager', 'member'];
+        plugin.accessRoles = harvest.user.access_roles;
+        const internal = harvest.addProject('Internal');
+        harvest.addEntry({ project: internal, spentDate: '2026-10-13', hours: 4, user: { id: 2002, name: 'Jane Doe' } });
+        plugin.projectCache = harvest.projects;
+
+        const report = await plugin.getTimeEntries(parseQuery('LIST WEEK USER all WHERE project = "Internal"', context));
+        assert.deepEqual(report.entries.map(entry => entry.hours), [4]);
+        assert.equal(new URL(harvest.requests[0].url).searchParams.get('project_id'), String(internal.id));
+    });
+
+    it('matches numeric project codes before project IDs', async () => {
+        harvest.user.access_roles = ['manager', 'member'];
+        plugin.accessRoles = harvest.user.access_roles;
+        const internal = harvest.addProject('Internal', { code: '1023' });
+        harvest.addEntry({ project: internal, spentDate: '2026-10-13', hours: 4, user: { id: 2002, name: 'Jane Doe' } });
+        plugin.projectCache = harvest.projects;
+
+        const byCode = await plugin.getTimeEntries(parseQuery('LIST WEEK USER all WHERE project = "1023"', context));
+        assert.deepEqual(byCode.entries.map(entry => entry.hours), [4]);
+        assert.equal(new URL(harvest.requests[0].url).searchParams.get('project_id'), String(internal.id));
+
+        const byId = await plugin.getTimeEntries(parseQuery(`LIST WEEK USER all WHERE project = ${internal.id}`, context));
+        assert.deepEqual(byId.entries.map(entry => entry.hours), [4]);
+    });
+
+    it("doesn't match projects without a code against an empty project name", async () => {
+        harvest.user.access_roles = ['manager', 'member'];
+        plugin.accessRoles = harvest.user.access_roles;
+        plugin.projectCache = harvest.projects;
+
+        assert.deepEqual((await plugin.getTimeEntries(parseQuery('LIST WEEK WHERE project = ""', context))).entries, []);
+        assert.deepEqual((await plugin.getTimeEntries(parseQuery('LIST WEEK USER all WHERE project = ""', context))).entries, []);
+    });
+
+    it('refuses team reports for members instead of showing only their own time', async () => {
+        plugin.accessRoles = ['member'];
+
+        await assert.rejects(plugin.getTimeEntries(parseQuery('SUMMARY WEEK USER all', context)), /administrator or manager role/);
+        assert.equal(harvest.requests.length, 0);
+    });
+});
+
+const HOUR = 60 * 60 * 1000;
+
+describe('idle time', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    let timer: HarvestTimeEntry;
+    const now = Date.now();
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        plugin = createPlugin(harvest);
+        const acme = harvest.addProject('Acme Redesign');
+        // Running for two hours, the last one of them idle
+        timer = harvest.addEntry({ project: acme, spentDate: formatDate(new Date()), isRunning: true });
+        timer.timer_started_at = new Date(now - 2 * HOUR).toISOString();
+    });
+
+    it('discards idle time and keeps the timer running', async () => {
+        await plugin.discardIdleTime(timer, now - HOUR);
+
+        assert.equal(timer.is_running, true);
+        assert.ok(Math.abs(timer.hours - 1) < 0.01, `expected about 1 hour, got ${timer.hours}`);
+    });
+
+    it('says so when the timer could not be restarted', async () => {
+        plugin.transport = {
+            send: async request => request.url.endsWith('/restart')
+                ? { status: 422, headers: {}, json: { message: 'Time entry is locked' } }
+                : harvest.send(request),
+        };
+
+        await plugin.discardIdleTime(timer, now - HOUR);
+        assert.equal(timer.is_running, false);
+        assert.match(Notice.messages[Notice.messages.length - 1], /could not be restarted and is now stopped/);
+    });
+
+    it('stops the timer from when the user went idle', async () => {
+        await plugin.stopTimerAtIdle(timer, now - HOUR);
+
+        assert.equal(timer.is_running, false);
+        assert.ok(Math.abs(timer.hours - 1) < 0.01, `expected about 1 hour, got ${timer.hours}`);
+    });
+});
+
+describe('writeDailyNoteLog', () => {
+    let harvest: FakeHarvest;
+    let notes: Map<string, string>;
+    let plugin: HarvestPlugin;
+    const today = formatDate(new Date());
+    const path = `Journal/${today}.md`;
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        notes = new Map([[path, '# Today\n\nMet the Acme team.\n']]);
+        plugin = createPlugin(harvest, notes);
+        plugin.settings.dailyNoteFolder = 'Journal';
+        const acme = harvest.addProject('Acme Redesign');
+        harvest.addEntry({ project: acme, spentDate: today, hours: 1.5, notes: 'Wireframes' });
+    });
+
+    it("updates the log in the day's note without touching the rest", async () => {
+        assert.equal(await plugin.writeDailyNoteLog(new Date()), true);
+        const first = notes.get(path) ?? '';
+        assert.ok(first.startsWith('# Today\n\nMet the Acme team.\n\n%% harvest-log %%\n'));
+        assert.match(first, /\| Acme Redesign \| Development \| 1:30 \| Wireframes \|/);
+
+        notes.set(path, first + '\nLater thoughts.\n');
+        harvest.addEntry({ project: harvest.projects[0], spentDate: today, hours: 0.5, notes: 'Review' });
+        await plugin.writeDailyNoteLog(new Date());
+
+        const second = notes.get(path) ?? '';
+        assert.equal(second.split('%% harvest-log %%').length, 2);
+        assert.match(second, /Review/);
+        assert.ok(second.endsWith('%% /harvest-log %%\n\nLater thoughts.\n'));
+    });
+
+    it("doesn't create missing daily notes", async () => {
+        plugin.settings.dailyNoteFolder = 'Daily';
+        assert.equal(await plugin.writeDailyNoteLog(new Date()), false);
+        assert.equal(notes.size, 1);
+    });
+
+    it('writes in the background without notices when Harvest is unreachable', async () => {
+        harvest.online = false;
+        const notices = Notice.messages.length;
+
+        assert.equal(await plugin.writeDailyNoteLog(new Date()), false);
+        assert.equal(Notice.messages.length, notices);
+    });
+});
+
+describe('account profiles', () => {
+    let harvest: FakeHarvest;
+    let other: FakeHarvest;
+    let plugin: HarvestPlugin;
+    const today = formatDate(new Date());
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        harvest.addEntry({ project: harvest.addProject('Acme Redesign'), spentDate: today, hours: 1 });
+        other = new FakeHarvest();
+        other.user = { ...other.user, id: 2001 };
+        other.addEntry({ project: other.addProject('Beta Support'), spentDate: today, hours: 2 });
+
+        plugin = createPlugin(harvest);
+        plugin.settings.profiles.push({ name: 'Contracting', personalAccessToken: 'other-token', accountId: '67890', folders: ['Clients/Beta'] });
+        // Each account is its own Harvest, told apart by the account ID sent with each request
+        plugin.transport = { send: request => (request.headers['Harvest-Account-Id'] === '67890' ? other : harvest).send(request) };
+    });
+
+    it('maps notes to the profile of their closest folder', () => {
+        const profiles: HarvestProfile[] = [
+            { name: 'Work', personalAccessToken: '', accountId: '', folders: ['Clients'] },
+            { name: 'Beta', personalAccessToken: '', accountId: '', folders: ['Clients/Beta', 'Beta'] },
+        ];
+        assert.equal(profileForPath(profiles, 'Clients/Beta/Kickoff.md')?.name, 'Beta');
+        assert.equal(profileForPath(profiles, 'Clients/Acme.md')?.name, 'Work');
+        assert.equal(profileForPath(profiles, 'Clients Old/Acme.md'), null);
+    });
+
+    it('reports on another account with ACCOUNT', async () => {
+        const query = parseQuery('LIST TODAY ACCOUNT contracting', { today: new Date(), weekStart: 1, sourcePath: 'Notes.md', noteDate: null });
+        const { entries, cachedAt } = await plugin.getTimeEntries(query);
+
+        assert.deepEqual(entries.map(entry => entry.project.name), ['Beta Support']);
+        assert.equal(cachedAt, null);
+        assert.equal(plugin.userId, harvest.user.id);
+        await assert.rejects(plugin.getTimeEntries({ ...query, account: 'Nope' }), /no Harvest account profile named "Nope"/);
+    });
+
+    it("switches accounts, keeping each one's user and projects", async () => {
+        await plugin.fetchAllTrackableProjects();
+        const statusBar: string[] = [];
+        plugin.statusBarItemEl = { setText: (text: string) => statusBar.push(text) } as unknown as HTMLElement;
+        other.addEntry({ project: other.projects[0], spentDate: today, isRunning: true });
+
+        await plugin.switchProfile('Contracting');
+
+        assert.equal(plugin.settings.activeProfile, 'Contracting');
+        assert.equal(plugin.userId, 2001);
+        assert.deepEqual((await plugin.fetchAllTrackableProjects()).map(project => project.name), ['Beta Support']);
+        assert.match(statusBar[statusBar.length - 1], /^Harvest \(Contracting\): Beta Support/);
+
+        await plugin.switchProfile('Default');
+        assert.equal(plugin.userId, harvest.user.id);
+        assert.deepEqual(plugin.projectCache.map(project => project.name), ['Acme Redesign']);
+    });
+
+    it("keeps each account's cached entries when switching", async () => {
+        const query = parseQuery('LIST TODAY', { today: new Date(), weekStart: 1, sourcePath: 'Notes.md', noteDate: null });
+        await plugin.getTimeEntries(query);
+        await plugin.switchProfile('Contracting');
+        assert.deepEqual((await plugin.getTimeEntries(query)).entries.map(entry => entry.project.name), ['Beta Support']);
+
+        await plugin.switchProfile('Default');
+        harvest.requests = [];
+        assert.deepEqual((await plugin.getTimeEntries(query)).entries.map(entry => entry.project.name), ['Acme Redesign']);
+        assert.equal(harvest.requests.length, 0);
+    });
+
+    it('keeps showing a timer left running in the account switched away from', async () => {
+        const statusBar: string[] = [];
+        plugin.statusBarItemEl = { setText: (text: string) => statusBar.push(text) } as unknown as HTMLElement;
+        const running = other.addEntry({ project: other.projects[0], spentDate: today, isRunning: true });
+        await plugin.switchProfile('Contracting');
+
+        await plugin.switchProfile('Default');
+        assert.equal(plugin.runningTimer, null);
+        assert.match(statusBar[statusBar.length - 1], /^Harvest \(Contracting\): Beta Support/);
+
+        running.is_running = false;
+        await plugin.updateRunningTimer();
+        assert.equal(statusBar[statusBar.length - 1], 'Harvest (Default): no timer running');
+    });
+});
+
+describe('signing in with Harvest ID', () => {
+    let harvest: FakeHarvest;
+    let plugin: HarvestPlugin;
+    let profile: HarvestProfile;
+
+    beforeEach(() => {
+        harvest = new FakeHarvest();
+        plugin = createPlugin(harvest);
+        plugin.settings.oauthClientId = 'client-id';
+        plugin.settings.oauthClientSecret = 'client-secret';
+        profile = plugin.settings.profiles[0];
+        plugin.userId = null;
+        plugin.pendingSignIn = { state: 'state-1', profile };
+    });
+
+    it('trades the code for tokens and uses the Harvest account', async () => {
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'state-1' });
+
+        assert.ok(profile.oauth && profile.oauth.expiresAt > Date.now());
+        assert.equal(plugin.app.secretStorage.getSecret(profile.personalAccessToken), 'access-token-1');
+        assert.equal(plugin.app.secretStorage.getSecret(profile.accountId), '12345');
+        assert.equal(plugin.userId, harvest.user.id);
+        assert.equal(plugin.pendingSignIn, null);
+    });
+
+    it('shows any sign-in failure instead of throwing it', async () => {
+        plugin.app.secretStorage.setSecret = () => { throw new Error('Secret storage is unavailable'); };
+
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'state-1' });
+        assert.equal(Notice.messages[Notice.messages.length - 1], 'Harvest sign-in failed: Secret storage is unavailable');
+    });
+
+    it('ignores redirects it did not start', async () => {
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'forged' });
+
+        assert.equal(profile.oauth, undefined);
+        assert.equal(harvest.requests.length, 0);
+    });
+
+    it('renews tokens before they expire and when they are revoked', async () => {
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'state-1' });
+
+        profile.oauth = { ...profile.oauth!, expiresAt: Date.now() + 60 * 1000 };
+        await Promise.all([plugin.fetchCurrentUserId(), plugin.getCompany()]);
+        assert.equal(plugin.app.secretStorage.getSecret(profile.personalAccessToken), 'access-token-2');
+
+        // Rotated elsewhere: the stored access token is refused, but the refresh token still works
+        harvest.accessToken = 'access-token-elsewhere';
+        plugin.company = null;
+        assert.ok(await plugin.getCompany());
+        assert.equal(plugin.app.secretStorage.getSecret(profile.personalAccessToken), 'access-token-3');
+    });
+
+    it('renews tokens that would expire before the next poll', async () => {
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'state-1' });
+        const expiresAt = profile.oauth!.expiresAt;
+
+        await plugin.renewExpiringSignIns(5 * 60 * 1000);
+        assert.equal(profile.oauth!.expiresAt, expiresAt);
+
+        profile.oauth!.expiresAt = Date.now() + 8 * 60 * 1000;
+        await plugin.renewExpiringSignIns(5 * 60 * 1000);
+        assert.equal(plugin.app.secretStorage.getSecret(profile.personalAccessToken), 'access-token-2');
+    });
+
+    it('forgets every secret of the sign-in when signing out', async () => {
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'state-1' });
+        const secrets = [profile.personalAccessToken, profile.accountId, profile.oauth!.refreshToken];
+
+        await plugin.signOut(profile);
+        assert.deepEqual(secrets.map(secret => plugin.app.secretStorage.getSecret(secret)), ['', '', '']);
+        assert.equal(profile.oauth, undefined);
+    });
+
+    it('asks to sign in again once the refresh token is refused', async () => {
+        await plugin.completeSignIn({ action: 'harvest-auth', code: harvest.authorizationCode, state: 'state-1' });
+        harvest.issueTokens();
+
+        await assert.rejects(plugin.send('/users/me'), /sign-in has expired/);
+    });
+});
@@ -0,0 +1,35 @@
+// Bundles each tests/*.test.ts with esbuild, standing in tests/obsidian-stub.ts for the 'obsidian' module
+// (which has no runtime code outside the app), then runs them with Node's test runner.
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import process from "process";
+import { fileURLToPath } from "url";
+
+const testsDir = path.dirname(fileURLToPath(import.meta.url));
+const outDir = mkdtempSync(path.join(tmpdir(), "harvest-tests-"));
+const testFiles = readdirSync(testsDir).filter(file => file.endsWith(".test.ts"));
+
+try {
+    await esbuild.build({
+        entryPoints: testFiles.map(file => path.join(testsDir, file)),
+        bundle: true,
+        platform: "node",
+        format: "cjs",
+        target: "es2018",
+        outdir: outDir,
+        alias: { obsidian: path.join(testsDir, "obsidian-stub.ts") },
+        logLevel: "warning",
+    });
+
+    // A fixed time zone with daylight saving, so date tests cover the clock changes wherever they run
+    const result = spawnSync(process.execPath, ["--test", ...testFiles.map(file => path.join(outDir, file.replace(/\.ts$/, ".js")))], {
+        stdio: "inherit",
+        env: { ...process.env, TZ: "Europe/London" },
+    });
+    process.exitCode = result.status ?? 1;
+} finally {
+    rmSync(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,245 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { HarvestTimeEntry, ProjectBudget, QueryContext, buildTimesheetRows, exportEntries, findSnapshots, parseExportColumns, parseQuery, replaceDailyLog, serializeBudgetToMarkdown, serializeDailyLog, serializeListToMarkdown, serializeSummaryToMarkdown, serializeTimesheetToMarkdown, wrapSnapshot } from '../main';
+import { FakeHarvest } from './fake-harvest';
+
+const context: QueryContext = { today: new Date(2026, 9, 14), weekStart: 1, sourcePath: 'Daily/2026-10-14.md', noteDate: null };
+
+function sampleEntries(): HarvestTimeEntry[] {
+    const harvest = new FakeHarvest();
+    const acme = harvest.addProject('Acme Redesign', { client: harvest.addClient('Acme Corp', 'USD'), tasks: ['Design', 'Development'] });
+    const internal = harvest.addProject('Internal', { client: harvest.addClient('Example Co', 'GBP'), tasks: ['Admin'] });
+    return [
+        harvest.addEntry({ project: acme, task: 'Design', spentDate: '2026-10-12', hours: 1.5, notes: 'Wireframes | v2\nfinal' }),
+        harvest.addEntry({ project: acme, task: 'Development', spentDate: '2026-10-13', hours: 2 }),
+        harvest.addEntry({ project: internal, task: 'Admin', spentDate: '2026-10-13', hours: 0.5, billable: false }),
+    ];
+}
+
+describe('serializeListToMarkdown', () => {
+    it('freezes entries as a table in a callout', () => {
+        const query = parseQuery('LIST WEEK', context);
+        assert.equal(serializeListToMarkdown(sampleEntries(), query), [
+            '> [!info] Harvest Time Entries (2026-10-12 to 2026-10-18)',
+            '',
+            '| Project | Task | Date | Hours |',
+            '| --- | --- | --- | ---: |',
+            '| Acme Redesign | Design | 2026-10-12 | 1.50 |',
+            '| Acme Redesign | Development | 2026-10-13 | 2.00 |',
+            '| Internal | Admin | 2026-10-13 | 0.50 |',
+        ].join('\n'));
+    });
+
+    it('escapes notes and totals money columns per currency', () => {
+        const query = parseQuery('LIST WEEK SHOW notes, billable, amount', context);
+        assert.equal(serializeListToMarkdown(sampleEntries(), query), [
+            '> [!info] Harvest Time Entries (2026-10-12 to 2026-10-18)',
+            '',
+            '| Project | Task | Date | Hours | Notes | Billable | Amount |',
+            '| --- | --- | --- | ---: | --- | --- | ---: |',
+            '| Acme Redesign | Design | 2026-10-12 | 1.50 | Wireframes \\| v2 final | Yes | USD 150.00 |',
+            '| Acme Redesign | Development | 2026-10-13 | 2.00 |  | Yes | USD 200.00 |',
+            '| Internal | Admin | 2026-10-13 | 0.50 |  | No |  |',
+            '| **Total** |  |  | **4.00** |  | **3.50 h** | **USD 350.00** |',
+        ].join('\n'));
+    });
+});
+
+describe('team reports', () => {
+    it("puts the user first in lists of other people's time and groups by user", () => {
+        const entries = sampleEntries();
+        entries[1].user = { id: 2002, name: 'Jane Doe' };
+
+        const list = serializeListToMarkdown(entries, parseQuery('LIST WEEK USER all', context)).split('\n');
+        assert.equal(list[2], '| User | Project | Task | Date | Hours |');
+        assert.equal(list[5], '| Jane Doe | Acme Redesign | Development | 2026-10-13 | 2.00 |');
+
+        assert.deepEqual(serializeSummaryToMarkdown(entries, parseQuery('SUMMARY WEEK USER all GROUP BY user', context)).split('\n').slice(2), [
+            '> - Test User: 2.00 hours',
+            '> - Jane Doe: 2.00 hours',
+        ]);
+    });
+});
+
+describe('freeze options', () => {
+    it('freezes LIST reports with the chosen columns as a plain table', () => {
+        const query = parseQuery('LIST WEEK SHOW billable', context);
+        const options = { style: 'table' as const, columns: parseExportColumns('date, client, task, hours, billable, notes') };
+        assert.equal(serializeListToMarkdown(sampleEntries(), query, options), [
+            '| Date | Client | Task | Hours | Billable | Notes |',
+            '| --- | --- | --- | ---: | --- | --- |',
+            '| 2026-10-12 | Acme Corp | Design | 1.50 | Yes | Wireframes \\| v2 final |',
+            '| 2026-10-13 | Acme Corp | Development | 2.00 | Yes |  |',
+            '| 2026-10-13 | Example Co | Admin | 0.50 | No |  |',
+            '| **Total** |  |  | **4.00** | **3.50 h** |  |',
+        ].join('\n'));
+    });
+
+    it('freezes summaries without the callout', () => {
+        const query = parseQuery('SUMMARY WEEK', context);
+        assert.equal(serializeSummaryToMarkdown(sampleEntries(), query, { style: 'table', columns: null }), [
+            '**Total hours: 4.00**',
+            '',
+            '- Acme Redesign: 3.50 hours',
+            '- Internal: 0.50 hours',
+        ].join('\n'));
+    });
+});
+
+describe('timesheet grids', () => {
+    it('groups entries into project and task rows by day', () => {
+        const entries = sampleEntries();
+        const rows = buildTimesheetRows(entries, [{ client: entries[2].client, project: entries[2].project, task: { id: 999, name: 'Support' } }]);
+        assert.deepEqual(rows.map(row => `${row.project.name} / ${row.task.name}`), [
+            'Acme Redesign / Design',
+            'Acme Redesign / Development',
+            'Internal / Admin',
+            'Internal / Support',
+        ]);
+        assert.deepEqual([...rows[1].days.keys()], ['2026-10-13']);
+        assert.equal(rows[3].days.size, 0);
+    });
+
+    it('freezes the grid with row and day totals', () => {
+        const query = parseQuery('TIMESHEET WEEK', context);
+        assert.equal(serializeTimesheetToMarkdown(sampleEntries(), query), [
+            '> [!info] Harvest Timesheet (2026-10-12 to 2026-10-18)',
+            '',
+            '| Project | Task | Mon 12 | Tue 13 | Wed 14 | Thu 15 | Fri 16 | Sat 17 | Sun 18 | Total |',
+            '| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+            '| Acme Redesign | Design | 1.50 |  |  |  |  |  |  | 1.50 |',
+            '| Acme Redesign | Development |  | 2.00 |  |  |  |  |  | 2.00 |',
+            '| Internal | Admin |  | 0.50 |  |  |  |  |  | 0.50 |',
+            '| **Total** |  | **1.50** | **2.50** | **0.00** | **0.00** | **0.00** | **0.00** | **0.00** | **4.00** |',
+        ].join('\n'));
+    });
+});
+
+describe('serializeBudgetToMarkdown', () => {
+    it('freezes budgets with a warning past the notification threshold', () => {
+        const client = { id: 1, name: 'Acme Corp', currency: 'USD' };
+        const budgets: ProjectBudget[] = [
+            { project: { id: 2, name: 'Acme Redesign', code: 'AR' }, client, isMonthly: false, isMoney: false, budget: 100, spent: 85, notifyPercentage: 80 },
+            { project: { id: 3, name: 'Acme Support', code: '' }, client, isMonthly: true, isMoney: true, budget: 2000, spent: 500, notifyPercentage: null },
+        ];
+        assert.equal(serializeBudgetToMarkdown(budgets, parseQuery('BUDGET', context)), [
+            '> [!info] Harvest Project Budgets (2026-10-14)',
+            '',
+            '| Project | Client | Budget | Spent | Remaining | Used |',
+            '| --- | --- | ---: | ---: | ---: | ---: |',
+            '| Acme Redesign | Acme Corp | 100.00 h | 85.00 h | 15.00 h | 85% ⚠ |',
+            '| Acme Support (monthly) | Acme Corp | USD 2000.00 | USD 500.00 | USD 1500.00 | 25% |',
+        ].join('\n'));
+    });
+});
+
+describe('daily note log', () => {
+    it('lists entries in the order they were started', () => {
+        const [design, development] = sampleEntries();
+        Object.assign(design, { started_time: '2:00pm', ended_time: '3:30pm', created_at: '2026-10-12T14:00:00Z' });
+        Object.assign(development, { started_time: '9:00am', ended_time: null, is_running: true, created_at: '2026-10-12T09:00:00Z' });
+        assert.equal(serializeDailyLog([design, development]), [
+            '%% harvest-log %%',
+            '| Start | End | Project | Task | Hours | Notes |',
+            '| --- | --- | --- | --- | ---: | --- |',
+            '| 9:00am |  | Acme Redesign | Development | 2:00 (running) |  |',
+            '| 2:00pm | 3:30pm | Acme Redesign | Design | 1:30 | Wireframes \\| v2 final |',
+            '| **Total** |  |  |  | **3:30** |  |',
+            '%% /harvest-log %%',
+        ].join('\n'));
+    });
+
+    it('replaces the managed section in place or appends one', () => {
+        const log = '%% harvest-log %%\nNo time tracked.\n%% /harvest-log %%';
+        assert.equal(replaceDailyLog('# Monday\n', log), `# Monday\n\n${log}\n`);
+        assert.equal(replaceDailyLog('', log), `${log}\n`);
+        const note = `# Monday\n\n%% harvest-log %%\nold\n%% /harvest-log %%\n\n## Notes`;
+        assert.equal(replaceDailyLog(note, log), `# Monday\n\n${log}\n\n## Notes`);
+        assert.equal(replaceDailyLog(replaceDailyLog(note, log), log), replaceDailyLog(note, log));
+    });
+});
+
+describe('frozen snapshots', () => {
+    it('finds the query and period kept with each snapshot', () => {
+        const query = parseQuery('LIST LAST WEEK', context);
+        const snapshot = wrapSnapshot('| Project |\n| --- |', 'LIST LAST WEEK\n', query);
+        const content = ['# October', '', snapshot, '', 'Notes', wrapSnapshot('**Total hours: 0.00**', 'SUMMARY\nMONTH', parseQuery('SUMMARY MONTH', context))].join('\n');
+
+        assert.deepEqual(findSnapshots(content), [
+            { lineStart: 2, lineEnd: 8, source: 'LIST LAST WEEK', from: '2026-10-05', to: '2026-10-11' },
+            { lineStart: 11, lineEnd: 17, source: 'SUMMARY\nMONTH', from: '2026-10-01', to: '2026-10-31' },
+        ]);
+    });
+
+    it('ignores unterminated snapshots', () => {
+        assert.deepEqual(findSnapshots('%% harvest-snapshot 2026-10-01 2026-10-31\nLIST MONTH\n%%\n| Project |'), []);
+    });
+});
+
+describe('serializeSummaryToMarkdown', () => {
+    it('freezes groups as a nested list, largest first', () => {
+        const query = parseQuery('SUMMARY WEEK GROUP BY client, task', context);
+        assert.equal(serializeSummaryToMarkdown(sampleEntries(), query), [
+            '> [!info] Harvest Time Summary (2026-10-12 to 2026-10-18)',
+            '> **Total hours: 4.00**',
+            '> - Acme Corp: 3.50 hours',
+            '>   - Development: 2.00 hours',
+            '>   - Design: 1.50 hours',
+            '> - Example Co: 0.50 hours',
+            '>   - Admin: 0.50 hours',
+        ].join('\n'));
+    });
+
+    it('keeps days in date order', () => {
+        const query = parseQuery('SUMMARY WEEK GROUP BY day', context);
+        const lines = serializeSummaryToMarkdown(sampleEntries(), query).split('\n');
+        assert.deepEqual(lines.slice(2).map(line => line.split(':')[0]), ['> - 2026-10-12', '> - 2026-10-13']);
+    });
+
+    it('freezes SHOW columns as a table', () => {
+        const query = parseQuery('SUMMARY WEEK SHOW billable, amount', context);
+        assert.equal(serializeSummaryToMarkdown(sampleEntries(), query), [
+            '> [!info] Harvest Time Summary (2026-10-12 to 2026-10-18)',
+            '> **Total hours: 4.00**',
+            '',
+            '| Project | Hours | Billable hours | Non-billable hours | Amount |',
+            '| --- | ---: | ---: | ---: | ---: |',
+            '| Acme Redesign | 3.50 | 3.50 | 0.00 | USD 350.00 |',
+            '| Internal | 0.50 | 0.00 | 0.50 | 0.00 |',
+            '| **Total** | **4.00** | **3.50** | **0.50** | **USD 350.00** |',
+        ].join('\n'));
+    });
+});
+
+describe('exportEntries', () => {
+    const fields = parseExportColumns('date, client, task, hours, billable, amount, notes');
+
+    it('quotes CSV cells that need it', () => {
+        assert.equal(exportEntries(sampleEntries().slice(0, 2), fields, 'csv'), [
+            'date,client,task,hours,billable,amount,notes',
+            '2026-10-12,Acme Corp,Design,1.5,true,150,"Wireframes | v2\nfinal"',
+            '2026-10-13,Acme Corp,Development,2,true,200,',
+            '',
+        ].join('\r\n'));
+    });
+
+    it('keeps JSON values typed', () => {
+        const rows = JSON.parse(exportEntries(sampleEntries().slice(2), fields, 'json')) as unknown[];
+        assert.deepEqual(rows, [
+            { date: '2026-10-13', client: 'Example Co', task: 'Admin', hours: 0.5, billable: false, amount: 0, notes: '' },
+        ]);
+    });
+
+    it('writes markdown tables with numeric columns right-aligned', () => {
+        assert.equal(exportEntries(sampleEntries().slice(0, 1), parseExportColumns('project, hours, notes'), 'markdown'), [
+            '| project | hours | notes |',
+            '| --- | ---: | --- |',
+            '| Acme Redesign | 1.5 | Wireframes \\| v2 final |',
+        ].join('\n'));
+    });
+
+    it('rejects unknown columns', () => {
+        assert.throws(() => parseExportColumns('date, colour'), /Unknown column: colour/);
+        assert.throws(() => parseExportColumns(' , '), /at least one column/);
+    });
+});